@@ -1,41 +1,34 @@
-import { App } from "@slack/bolt";
+import { App, BlockAction, ButtonAction } from "@slack/bolt";
 import logger from "./logger";
-import { GeminiService } from "./services/gemini.service";
-import { ImageProcessingService } from "./services/image-processing.service";
-import { SlackService } from "./services/slack.service";
-import { EventHandlerService } from "./services/event-handler.service";
+import { EnvConfig } from "./config";
+import { createServices, Services } from "./container";
+import { isDirectMessage } from "./services/event-queue.service";
+import { messageEventKey } from "./services/idempotency.service";
+import { ORDER_ACTION_PATTERN } from "./services/order-blocks";
+import { PAYMENT_REACTIONS } from "./services/payment.service";
+
+/** How often order cutoffs and reminders are checked */
+const CUTOFF_CHECK_INTERVAL_MS = 30 * 1000;
 
 /**
  * Main bot orchestrator that handles Slack events and AI interactions
  */
 export class GarconBot {
   private app: App;
-  private eventHandlerService: EventHandlerService;
-  private slackService: SlackService;
-
-  constructor(
-    slackBotToken: string,
-    slackAppToken: string,
-    slackSigningSecret: string,
-    geminiApiKey: string,
-    geminiModel: string
-  ) {
+  private services: Services;
+  private cutoffTimer?: NodeJS.Timeout;
+  private requestTimeoutMs: number;
+
+  constructor(config: EnvConfig) {
     this.app = new App({
-      token: slackBotToken,
-      appToken: slackAppToken,
-      signingSecret: slackSigningSecret,
+      token: config.slackBotToken,
+      appToken: config.slackAppToken,
+      signingSecret: config.slackSigningSecret,
       socketMode: true,
     });
 
-    this.slackService = new SlackService(slackBotToken);
-    const imageProcessingService = new ImageProcessingService();
-    const geminiService = new GeminiService(geminiApiKey, geminiModel);
-
-    this.eventHandlerService = new EventHandlerService(
-      this.slackService,
-      geminiService,
-      imageProcessingService
-    );
+    this.services = createServices(config);
+    this.requestTimeoutMs = config.requestTimeoutSeconds * 1000;
 
     this.registerEventHandlers();
   }
@@ -44,17 +37,95 @@ export class GarconBot {
    * Registers all Slack event handlers
    */
   private registerEventHandlers(): void {
-    this.app.event("app_mention", async ({ event }) => {
-      await this.eventHandlerService.handleAppMention(event);
+    const {
+      eventHandlerService,
+      commandHandlerService,
+      actionHandlerService,
+      idempotencyService,
+    } = this.services;
+
+    this.app.event("app_mention", async ({ event, body }) => {
+      await idempotencyService.runOnce(
+        messageEventKey(event),
+        (attempt) =>
+          eventHandlerService.handleAppMention(event, this.deadline(), attempt),
+        body.event_id
+      );
+    });
+
+    this.app.event("message", async ({ event, body }) => {
+      if (isDirectMessage(event)) {
+        await idempotencyService.runOnce(
+          messageEventKey(event),
+          (attempt) =>
+            eventHandlerService.handleDirectMessage(
+              event,
+              this.deadline(),
+              attempt
+            ),
+          body.event_id
+        );
+        return;
+      }
+      if (
+        event.subtype !== "message_changed" &&
+        event.subtype !== "message_deleted"
+      ) {
+        return;
+      }
+      await idempotencyService.runOnce(
+        `change:${event.channel}:${event.ts}`,
+        () => eventHandlerService.handleMessageChange(event, this.deadline()),
+        body.event_id
+      );
+    });
+
+    for (const type of ["reaction_added", "reaction_removed"] as const) {
+      this.app.event(type, async ({ event, body }) => {
+        if (!PAYMENT_REACTIONS.has(event.reaction)) return;
+        await idempotencyService.runOnce(
+          `reaction:${event.event_ts}`,
+          () => eventHandlerService.handleReaction(event),
+          body.event_id
+        );
+      });
+    }
+
+    this.app.action<BlockAction<ButtonAction>>(
+      ORDER_ACTION_PATTERN,
+      async ({ body, ack }) => {
+        await ack();
+        await actionHandlerService.handleBlockAction(body);
+      }
+    );
+
+    this.app.command("/garcon", async ({ command, ack }) => {
+      await ack();
+      await commandHandlerService.handleCommand(command, this.deadline());
     });
   }
 
+  /**
+   * Time a request received now must be answered by
+   */
+  private deadline(): number {
+    return Date.now() + this.requestTimeoutMs;
+  }
+
   /**
    * Starts the bot and initializes services
    */
   async start(port: number): Promise<void> {
-    await this.slackService.initialize();
+    await this.services.slackService.initialize();
     await this.app.start(port);
+
+    // Lambda uses an EventBridge schedule instead, see lambda-scheduler.ts
+    this.cutoffTimer = setInterval(() => {
+      this.services.cutoffService.runDue().catch((error) => {
+        logger.error("Failed to run scheduled order tasks", { error });
+      });
+    }, CUTOFF_CHECK_INTERVAL_MS);
+
     logger.info("Garcon is ready to serve", { port });
   }
 
@@ -62,6 +133,7 @@ export class GarconBot {
    * Gracefully stops the bot
    */
   async stop(): Promise<void> {
+    clearInterval(this.cutoffTimer);
     await this.app.stop();
     logger.info("Garcon has left the building");
   }
@@ -0,0 +1,285 @@
+#!/usr/bin/env node
+import { relative } from "node:path";
+import { EnvConfig, getEnvConfig } from "./config";
+import { createServices, Services } from "./container";
+import logger from "./logger";
+import { DeadLetter, DeadLetterService } from "./services/dead-letter.service";
+import { QueuedEvent } from "./services/event-queue.service";
+import {
+  findFixtures,
+  ThreadReplayService,
+} from "./services/thread-replay.service";
+
+const USAGE = `Usage: garcon dlq <command>
+       garcon replay [fixture...] [--live|--record]
+
+  dlq list [--limit N]          Show failed events and why they failed
+  dlq show <message-id>         Print a failed event's payload and error
+  dlq replay <message-id>|--all Send failed events back to the events queue
+             [--run]            ...or handle them right here instead
+  dlq purge <message-id>|--all  Delete failed events
+
+  replay                        Run recorded threads (fixtures/threads by
+                                default) and check their orders and splits
+         --live                 ...asking the configured model instead of
+                                replaying its recorded responses
+         --record               ...and save its responses to the fixtures
+
+dlq reads EVENTS_DLQ_URL (and EVENTS_QUEUE_URL for replays). Set
+AWS_ENDPOINT_URL_SQS to use a local SQS stand-in such as ElasticMQ.`;
+
+/**
+ * One-line description of what a queued event was
+ */
+function describeEvent(event: QueuedEvent | null): string {
+  if (!event) return "unrecognized message";
+  switch (event.kind) {
+    case "app_mention":
+    case "direct_message":
+      return `${event.kind} from ${event.payload.user} in ${event.payload.channel}: ${preview(event.payload.text ?? "")}`;
+    case "message_change":
+      return `${event.payload.subtype} in ${event.payload.channel}`;
+    case "reaction":
+      return `${event.payload.type} :${event.payload.reaction}: by ${event.payload.user}`;
+    case "block_action":
+      return `button ${event.payload.actions[0]?.action_id} by ${event.payload.user.id}`;
+    case "slash_command":
+      return `/garcon ${event.payload.text} by ${event.payload.user_id}`;
+  }
+}
+
+function preview(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > 60 ? `${line.substring(0, 57)}...` : line;
+}
+
+function describeFailure(letter: DeadLetter): string {
+  if (!letter.error) {
+    return "no error recorded (the processor crashed or timed out)";
+  }
+  const attempts = letter.attempts ? ` after ${letter.attempts} attempts` : "";
+  return `${letter.error}${attempts}`;
+}
+
+async function list(dlq: DeadLetterService, args: string[]): Promise<void> {
+  const limitIndex = args.indexOf("--limit");
+  const limit = limitIndex >= 0 ? parseInt(args[limitIndex + 1], 10) : 50;
+
+  const letters = await dlq.list(limit);
+  if (letters.length === 0) {
+    console.log("The dead-letter queue is empty.");
+    return;
+  }
+  for (const letter of letters) {
+    console.log(
+      [
+        letter.messageId,
+        `  ${describeEvent(letter.event)}`,
+        `  failed ${letter.failedAt ?? "at an unknown time"}: ${describeFailure(letter)}`,
+      ].join("\n")
+    );
+  }
+}
+
+async function show(dlq: DeadLetterService, messageId: string): Promise<void> {
+  const letter = (await dlq.list(Infinity)).find(
+    (candidate) => candidate.messageId === messageId
+  );
+  if (!letter) throw new Error(`No dead letter with ID ${messageId}`);
+
+  console.log(
+    [
+      `Message:   ${letter.messageId}`,
+      `Source:    ${letter.sourceMessageId ?? "unknown"}`,
+      `Event:     ${describeEvent(letter.event)}`,
+      `Failed at: ${letter.failedAt ?? "unknown"}`,
+      `Error:     ${describeFailure(letter)}`,
+      "",
+      letter.event
+        ? JSON.stringify(letter.event, null, 2)
+        : letter.body || "(empty body)",
+    ].join("\n")
+  );
+}
+
+/**
+ * Replays claimed letters: handled here when services are given, otherwise
+ * requeued. Letters that fail again are released and stay on the queue.
+ * @returns How many letters failed
+ */
+async function replayLetters(
+  config: EnvConfig,
+  dlq: DeadLetterService,
+  letters: DeadLetter[],
+  services?: Services
+): Promise<number> {
+  let failed = 0;
+
+  for (const letter of letters) {
+    try {
+      if (services) {
+        if (!letter.event) throw new Error("Unrecognized message body");
+        await services.eventProcessorService.process(
+          letter.event,
+          Date.now() + config.requestTimeoutSeconds * 1000
+        );
+        await dlq.delete(letter);
+      } else {
+        await dlq.requeue(letter);
+      }
+      console.log(`${letter.messageId}: ${services ? "handled" : "requeued"}`);
+    } catch (error) {
+      failed += 1;
+      await dlq.release(letter);
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`${letter.messageId}: failed again: ${message}`);
+    }
+  }
+  return failed;
+}
+
+async function startServices(config: EnvConfig): Promise<Services> {
+  const services = createServices(config);
+  await services.slackService.initialize();
+  return services;
+}
+
+async function replay(
+  config: EnvConfig,
+  dlq: DeadLetterService,
+  target: string,
+  services?: Services
+): Promise<number> {
+  if (target !== "--all") {
+    const letter = await dlq.claim(target);
+    if (!letter) throw new Error(`No dead letter with ID ${target}`);
+    return replayLetters(config, dlq, [letter], services);
+  }
+
+  // Letters that fail again are released; stop when only those are left
+  const attempted = new Set<string>();
+  let failed = 0;
+  for (;;) {
+    const batch = await dlq.claimBatch();
+    const fresh = batch.filter((letter) => !attempted.has(letter.messageId));
+    await Promise.all(
+      batch
+        .filter((letter) => attempted.has(letter.messageId))
+        .map((letter) => dlq.release(letter))
+    );
+    if (fresh.length === 0) break;
+
+    fresh.forEach((letter) => attempted.add(letter.messageId));
+    failed += await replayLetters(config, dlq, fresh, services);
+  }
+  console.log(`Replayed ${attempted.size - failed} of ${attempted.size}.`);
+  return failed;
+}
+
+async function purge(dlq: DeadLetterService, target: string): Promise<void> {
+  if (target === "--all") {
+    await dlq.purge();
+    console.log("Purged the dead-letter queue.");
+    return;
+  }
+  const letter = await dlq.claim(target);
+  if (!letter) throw new Error(`No dead letter with ID ${target}`);
+  await dlq.delete(letter);
+  console.log(`${target}: deleted`);
+}
+
+/**
+ * Runs thread fixtures and reports the ones whose outcome changed
+ * @returns 1 if any fixture failed
+ */
+async function replayThreads(args: string[]): Promise<number> {
+  const record = args.includes("--record");
+  const live = record || args.includes("--live");
+  const paths = args.filter((arg) => !arg.startsWith("--"));
+
+  // Handler logs would bury the results; warnings still explain failures
+  if (!process.env.LOG_LEVEL) logger.level = "warn";
+
+  const harness = new ThreadReplayService(
+    getEnvConfig({ slack: false, llm: live }),
+    live ? "live" : "replay"
+  );
+  const files = await findFixtures(paths.length > 0 ? paths : undefined);
+  let failed = 0;
+
+  for (const file of files) {
+    let failures: string[];
+    let description: string | undefined;
+    try {
+      const result = await harness.run(file);
+      if (record && result.script) {
+        await harness.saveScript(file, result.script);
+      }
+      ({ failures, description } = result);
+    } catch (error) {
+      failures = [error instanceof Error ? error.message : String(error)];
+    }
+
+    const name = relative(process.cwd(), file);
+    const label = description ? `${name} - ${description}` : name;
+    if (failures.length === 0) {
+      console.log(`✓ ${label}`);
+      continue;
+    }
+    failed += 1;
+    console.log(`✗ ${label}`);
+    failures.forEach((failure) => console.log(`    ${failure}`));
+  }
+
+  console.log(`${files.length - failed} of ${files.length} threads passed.`);
+  return failed > 0 ? 1 : 0;
+}
+
+/**
+ * Command line entry point: `garcon dlq <command>` and `garcon replay`
+ */
+async function main(argv: string[]): Promise<number> {
+  const [group, command, target, ...rest] = argv;
+  if (group === "replay") return replayThreads(argv.slice(1));
+  if (group !== "dlq" || !command) {
+    console.log(USAGE);
+    return group === undefined || group === "help" ? 0 : 1;
+  }
+
+  // Only handling events here needs the Slack and model credentials
+  const run = command === "replay" && rest.includes("--run");
+  const config = getEnvConfig(run ? {} : { slack: false, llm: false });
+  if (!config.deadLetterQueueUrl) {
+    throw new Error("EVENTS_DLQ_URL is not set");
+  }
+  const dlq = new DeadLetterService(
+    config.deadLetterQueueUrl,
+    config.eventsQueueUrl
+  );
+
+  if (command === "list") {
+    await list(dlq, argv.slice(2));
+    return 0;
+  }
+  if (!target || !["show", "replay", "purge"].includes(command)) {
+    console.log(USAGE);
+    return 1;
+  }
+
+  if (command === "show") {
+    await show(dlq, target);
+  } else if (command === "purge") {
+    await purge(dlq, target);
+  } else {
+    const services = run ? await startServices(config) : undefined;
+    return (await replay(config, dlq, target, services)) > 0 ? 1 : 0;
+  }
+  return 0;
+}
+
+main(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
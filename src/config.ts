@@ -1,26 +1,99 @@
 import { config as dotenvConfig } from "dotenv";
+import { StorageDriver, StorageOptions } from "./storage";
 
 dotenvConfig();
 
-interface EnvConfig {
+export type LlmProviderName = "gemini" | "openai" | "fake";
+
+export interface EnvConfig {
   slackBotToken: string;
   slackAppToken: string;
   slackSigningSecret: string;
+  llmProvider: LlmProviderName;
   geminiApiKey: string;
   geminiModel: string;
+  openaiBaseUrl: string;
+  openaiApiKey?: string;
+  openaiModel: string;
+  /** JSON script replayed by the fake provider */
+  fakeLlmScript?: string;
   port: number;
+  storage: StorageOptions;
+  /** Stream partial replies into the placeholder message */
+  streamResponses: boolean;
+  /** Maximum thread messages sent to the model (parent + newest replies) */
+  threadMessageLimit: number;
+  /** Newest DM messages read as context when a user messages the bot */
+  directMessageLimit: number;
+  /** Estimated token budget for the conversation sent to the model */
+  contextMaxTokens: number;
+  /** Budget for inline images and files sent to the model, in bytes */
+  contextMaxImageBytes: number;
+  /** Longest edge images are downscaled to before sending, in pixels */
+  imageMaxDimension: number;
+  /** Normalized image bytes allowed per request; the rest are skipped */
+  imageMaxRequestBytes: number;
+  /** How long Slack user names are cached, in seconds */
+  userCacheTtlSeconds: number;
+  /** IANA time zone that order cutoff times are read in */
+  timeZone: string;
+  /** Minutes before a cutoff that unconfirmed participants are reminded */
+  cutoffReminderMinutes: number;
+  /** Per-workspace and per-channel persona config (defaults to prompt-config.json) */
+  promptConfigFile?: string;
+  /** Directory of restaurant menus the model can look prices up in (defaults to menus/) */
+  menuDir?: string;
+  /** Attempts per Gemini, OpenAI or Slack call when errors are transient */
+  retryMaxAttempts: number;
+  /** Longest one call may spend retrying, in seconds */
+  retryBudgetSeconds: number;
+  /** Time Garçon has to answer a request in Socket Mode, in seconds; Lambda uses its own timeout */
+  requestTimeoutSeconds: number;
+  /** SQS queue the receiver Lambda hands events to the processor through */
+  eventsQueueUrl?: string;
+  /** Where events go after failing every attempt, see `garcon dlq` */
+  deadLetterQueueUrl?: string;
+  /** Attempts per event before it is dead-lettered; matches the redrive policy */
+  maxReceiveCount: number;
+}
+
+/**
+ * Parses the LLM provider name, defaulting to Gemini
+ * @throws {Error} If the provider name is not supported
+ */
+function parseLlmProvider(value: string | undefined): LlmProviderName {
+  if (!value) return "gemini";
+  if (value === "gemini" || value === "openai" || value === "fake") {
+    return value;
+  }
+  throw new Error(`Unsupported LLM_PROVIDER: ${value}`);
+}
+
+/**
+ * Parses the storage driver name, defaulting to in-memory storage
+ * @throws {Error} If the driver name is not supported
+ */
+function parseStorageDriver(value: string | undefined): StorageDriver {
+  if (!value) return "memory";
+  if (value === "memory" || value === "file" || value === "dynamodb") {
+    return value;
+  }
+  throw new Error(`Unsupported STORAGE_DRIVER: ${value}`);
 }
 
 /**
  * Validates and retrieves environment variables
+ * @param required - Credentials to insist on; the replay harness runs
+ * without Slack and, unless it calls a real model, without a model key
  * @throws {Error} If required environment variables are missing
  */
-export function getEnvConfig(): EnvConfig {
-  const requiredVars = [
-    "SLACK_BOT_TOKEN",
-    "SLACK_SIGNING_SECRET",
-    "GEMINI_API_KEY",
-  ];
+export function getEnvConfig(
+  required: { slack?: boolean; llm?: boolean } = {}
+): EnvConfig {
+  const { slack = true, llm = true } = required;
+  const llmProvider = parseLlmProvider(process.env.LLM_PROVIDER);
+  const requiredVars = slack ? ["SLACK_BOT_TOKEN", "SLACK_SIGNING_SECRET"] : [];
+  if (llm && llmProvider === "gemini") requiredVars.push("GEMINI_API_KEY");
 
   const missing = requiredVars.filter((varName) => !process.env[varName]);
 
@@ -34,10 +107,51 @@ export function getEnvConfig(): EnvConfig {
     slackBotToken: process.env.SLACK_BOT_TOKEN!,
     slackAppToken: process.env.SLACK_APP_TOKEN!,
     slackSigningSecret: process.env.SLACK_SIGNING_SECRET!,
-    geminiApiKey: process.env.GEMINI_API_KEY!,
+    llmProvider,
+    geminiApiKey: process.env.GEMINI_API_KEY || "",
     geminiModel: process.env.GEMINI_MODEL || "gemini-2.5-pro",
+    openaiBaseUrl: process.env.OPENAI_BASE_URL || "http://localhost:11434/v1",
+    openaiApiKey: process.env.OPENAI_API_KEY || undefined,
+    openaiModel: process.env.OPENAI_MODEL || "llama3.2-vision",
+    fakeLlmScript: process.env.FAKE_LLM_SCRIPT || undefined,
     port: parseInt(process.env.PORT || "3000", 10),
+    storage: {
+      driver: parseStorageDriver(process.env.STORAGE_DRIVER),
+      dir: process.env.STORAGE_DIR || ".garcon-data",
+      table: process.env.STORAGE_TABLE || undefined,
+    },
+    streamResponses: process.env.STREAM_RESPONSES === "true",
+    threadMessageLimit: parseInt(process.env.THREAD_MESSAGE_LIMIT || "500", 10),
+    directMessageLimit: parseInt(process.env.DM_MESSAGE_LIMIT || "50", 10),
+    contextMaxTokens: parseInt(process.env.CONTEXT_MAX_TOKENS || "200000", 10),
+    contextMaxImageBytes: parseInt(
+      process.env.CONTEXT_MAX_IMAGE_BYTES || String(12 * 1024 * 1024),
+      10
+    ),
+    imageMaxDimension: parseInt(process.env.IMAGE_MAX_DIMENSION || "1568", 10),
+    imageMaxRequestBytes: parseInt(
+      process.env.IMAGE_MAX_REQUEST_BYTES || String(10 * 1024 * 1024),
+      10
+    ),
+    userCacheTtlSeconds: parseInt(
+      process.env.USER_CACHE_TTL_SECONDS || "86400",
+      10
+    ),
+    timeZone: process.env.TIMEZONE || "Africa/Cairo",
+    cutoffReminderMinutes: parseInt(
+      process.env.CUTOFF_REMINDER_MINUTES || "10",
+      10
+    ),
+    promptConfigFile: process.env.PROMPT_CONFIG_FILE || undefined,
+    menuDir: process.env.MENU_DIR || undefined,
+    retryMaxAttempts: parseInt(process.env.RETRY_MAX_ATTEMPTS || "4", 10),
+    retryBudgetSeconds: parseInt(process.env.RETRY_BUDGET_SECONDS || "60", 10),
+    requestTimeoutSeconds: parseInt(
+      process.env.REQUEST_TIMEOUT_SECONDS || "120",
+      10
+    ),
+    eventsQueueUrl: process.env.EVENTS_QUEUE_URL || undefined,
+    deadLetterQueueUrl: process.env.EVENTS_DLQ_URL || undefined,
+    maxReceiveCount: parseInt(process.env.EVENTS_MAX_RECEIVE_COUNT || "3", 10),
   };
 }
-
-export const config = getEnvConfig();
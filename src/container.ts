@@ -0,0 +1,224 @@
+import { EnvConfig } from "./config";
+import { ActionHandlerService } from "./services/action-handler.service";
+import { BillSplitService } from "./services/bill-split.service";
+import { createBillTools } from "./services/bill-tools";
+import { CommandHandlerService } from "./services/command-handler.service";
+import { ContextBudgetService } from "./services/context-budget.service";
+import { CutoffService } from "./services/cutoff.service";
+import { DeadLetterService } from "./services/dead-letter.service";
+import { EventHandlerService } from "./services/event-handler.service";
+import { EventProcessorService } from "./services/event-processor.service";
+import { FakeLlmService } from "./services/fake-llm.service";
+import { GeminiService } from "./services/gemini.service";
+import {
+  IdempotencyRecord,
+  IdempotencyService,
+} from "./services/idempotency.service";
+import { ImageProcessingService } from "./services/image-processing.service";
+import { LlmProvider } from "./services/llm-provider";
+import { LlmService } from "./services/llm.service";
+import {
+  MenuCatalogService,
+  RestaurantMenu,
+} from "./services/menu-catalog.service";
+import { MenuImportService } from "./services/menu-import.service";
+import { OpenAiCompatibleService } from "./services/openai-compatible.service";
+import {
+  OrderSession,
+  OrderSessionService,
+} from "./services/order-session.service";
+import { PaymentService } from "./services/payment.service";
+import {
+  ChannelPersona,
+  PromptRegistryService,
+} from "./services/prompt-registry.service";
+import { ReceiptService } from "./services/receipt.service";
+import { RetryPolicy } from "./services/retry";
+import { SlackService } from "./services/slack.service";
+import { CachedUser } from "./services/user-directory.service";
+import { createStore } from "./storage";
+
+export interface Services {
+  slackService: SlackService;
+  llmService: LlmService;
+  billSplitService: BillSplitService;
+  orderSessionService: OrderSessionService;
+  paymentService: PaymentService;
+  cutoffService: CutoffService;
+  promptRegistryService: PromptRegistryService;
+  idempotencyService: IdempotencyService;
+  eventHandlerService: EventHandlerService;
+  commandHandlerService: CommandHandlerService;
+  actionHandlerService: ActionHandlerService;
+  eventProcessorService: EventProcessorService;
+  /** Only when EVENTS_DLQ_URL is set */
+  deadLetterService?: DeadLetterService;
+  retryPolicy: RetryPolicy;
+}
+
+/**
+ * Stand-ins for the services that talk to the outside world, e.g. for the
+ * thread replay harness
+ */
+export interface ServiceOverrides {
+  /** LLM provider used instead of the configured one */
+  provider?: LlmProvider;
+  /** Slack client used instead of one built from the bot token */
+  slackService?: SlackService;
+}
+
+/**
+ * Creates the LLM provider selected by LLM_PROVIDER
+ * @param config - Environment configuration
+ * @param retryPolicy - Backoff for transient model errors
+ * @returns Provider instance
+ */
+export function createLlmProvider(
+  config: EnvConfig,
+  retryPolicy?: RetryPolicy
+): LlmProvider {
+  switch (config.llmProvider) {
+    case "openai":
+      return new OpenAiCompatibleService(
+        config.openaiBaseUrl,
+        config.openaiModel,
+        config.openaiApiKey,
+        retryPolicy
+      );
+    case "fake":
+      return config.fakeLlmScript
+        ? FakeLlmService.fromFile(config.fakeLlmScript)
+        : new FakeLlmService();
+    case "gemini":
+      return new GeminiService(
+        config.geminiApiKey,
+        config.geminiModel,
+        retryPolicy
+      );
+  }
+}
+
+/**
+ * Wires up every service. Shared by Socket Mode and the Lambda handlers so
+ * they are always assembled the same way.
+ * @param config - Environment configuration
+ * @param overrides - Services to use instead of the configured ones
+ * @returns Service instances
+ */
+export function createServices(
+  config: EnvConfig,
+  overrides: ServiceOverrides = {}
+): Services {
+  // One policy for Slack and the model so a Lambda deadline covers both
+  const retryPolicy = new RetryPolicy({
+    maxAttempts: config.retryMaxAttempts,
+    maxElapsedMs: config.retryBudgetSeconds * 1000,
+  });
+  const slackService =
+    overrides.slackService ??
+    new SlackService(
+      config.slackBotToken,
+      {
+        threadMessageLimit: config.threadMessageLimit,
+        directMessageLimit: config.directMessageLimit,
+        userCacheTtlSeconds: config.userCacheTtlSeconds,
+      },
+      createStore<CachedUser>("users", config.storage),
+      retryPolicy
+    );
+  const menuCatalogService = new MenuCatalogService(
+    createStore<RestaurantMenu>("menus", config.storage),
+    config.menuDir ? { dir: config.menuDir } : {}
+  );
+  const llmService = new LlmService(
+    overrides.provider ?? createLlmProvider(config, retryPolicy),
+    createBillTools(menuCatalogService)
+  );
+  const imageProcessingService = new ImageProcessingService({
+    maxDimension: config.imageMaxDimension,
+    maxRequestBytes: config.imageMaxRequestBytes,
+  });
+  const billSplitService = new BillSplitService();
+  const receiptService = new ReceiptService(llmService);
+  const orderSessionService = new OrderSessionService(
+    createStore<OrderSession>("sessions", config.storage)
+  );
+  const paymentService = new PaymentService(orderSessionService);
+  const promptRegistryService = new PromptRegistryService(
+    createStore<ChannelPersona>("personas", config.storage),
+    config.promptConfigFile ? { configFile: config.promptConfigFile } : {}
+  );
+  const cutoffService = new CutoffService(
+    slackService,
+    orderSessionService,
+    promptRegistryService,
+    {
+      timeZone: config.timeZone,
+      reminderLeadMinutes: config.cutoffReminderMinutes,
+    }
+  );
+  const idempotencyService = new IdempotencyService(
+    createStore<IdempotencyRecord>("idempotency", config.storage)
+  );
+
+  const eventHandlerService = new EventHandlerService(
+    slackService,
+    llmService,
+    imageProcessingService,
+    billSplitService,
+    receiptService,
+    orderSessionService,
+    new ContextBudgetService({
+      maxTokens: config.contextMaxTokens,
+      maxImageBytes: config.contextMaxImageBytes,
+    }),
+    paymentService,
+    cutoffService,
+    promptRegistryService,
+    menuCatalogService,
+    new MenuImportService(llmService, menuCatalogService),
+    { streamResponses: config.streamResponses }
+  );
+
+  const commandHandlerService = new CommandHandlerService(
+    slackService,
+    orderSessionService,
+    eventHandlerService,
+    billSplitService,
+    paymentService,
+    cutoffService,
+    promptRegistryService
+  );
+
+  const actionHandlerService = new ActionHandlerService(
+    slackService,
+    orderSessionService,
+    billSplitService,
+    paymentService,
+    cutoffService
+  );
+
+  return {
+    slackService,
+    llmService,
+    billSplitService,
+    orderSessionService,
+    paymentService,
+    cutoffService,
+    promptRegistryService,
+    idempotencyService,
+    eventHandlerService,
+    commandHandlerService,
+    actionHandlerService,
+    eventProcessorService: new EventProcessorService(
+      eventHandlerService,
+      commandHandlerService,
+      actionHandlerService,
+      idempotencyService
+    ),
+    deadLetterService: config.deadLetterQueueUrl
+      ? new DeadLetterService(config.deadLetterQueueUrl, config.eventsQueueUrl)
+      : undefined,
+    retryPolicy,
+  };
+}
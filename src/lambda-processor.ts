@@ -1,26 +1,21 @@
 import { SQSHandler } from "aws-lambda";
-import { GeminiService } from "./services/gemini.service";
-import { SlackService } from "./services/slack.service";
-import { ImageProcessingService } from "./services/image-processing.service";
-import { EventHandlerService } from "./services/event-handler.service";
-import { config } from "./config";
+import { createServices } from "./container";
+import { parseQueuedEvent } from "./services/event-queue.service";
+import { getEnvConfig } from "./config";
+import { DEADLINE_MARGIN_MS } from "./services/retry";
 
-const slackService = new SlackService(config.slackBotToken);
-const geminiService = new GeminiService(
-  config.geminiApiKey,
-  config.geminiModel
-);
-const imageProcessingService = new ImageProcessingService();
-
-const eventHandlerService = new EventHandlerService(
-  slackService,
-  geminiService,
-  imageProcessingService
-);
+const config = getEnvConfig();
+const { slackService, eventProcessorService, deadLetterService, retryPolicy } =
+  createServices(config);
 
 let initialized = false;
 
-export const handler: SQSHandler = async (event) => {
+export const handler: SQSHandler = async (event, context) => {
+  // Model calls and downloads are aborted in time to tell the user
+  const deadline =
+    Date.now() + context.getRemainingTimeInMillis() - DEADLINE_MARGIN_MS;
+  retryPolicy.setDeadline(deadline);
+
   // Initialize once per container
   if (!initialized) {
     await slackService.initialize();
@@ -29,15 +24,30 @@ export const handler: SQSHandler = async (event) => {
 
   // Process each SQS record (should be 1 per invocation)
   for (const record of event.Records) {
-    const slackEvent = JSON.parse(record.body);
+    const queuedEvent = parseQueuedEvent(record.body);
+    if (!queuedEvent) continue;
+
+    try {
+      await eventProcessorService.process(queuedEvent, deadline);
+    } catch (error) {
+      console.error(
+        `Error processing ${queuedEvent.kind} (message ${record.messageId}):`,
+        error
+      );
 
-    if (slackEvent.type === "app_mention") {
-      try {
-        await eventHandlerService.handleAppMention(slackEvent);
-      } catch (error) {
-        console.error("Error processing app_mention:", error);
-        throw error; // Let SQS retry
+      // On the last attempt, dead-letter the event ourselves so the error
+      // is kept with it for `garcon dlq`
+      const attempts = Number(record.attributes.ApproximateReceiveCount);
+      if (deadLetterService && attempts >= config.maxReceiveCount) {
+        await deadLetterService.send(
+          record.body,
+          error,
+          attempts,
+          record.messageId
+        );
+        continue;
       }
+      throw error; // Let SQS retry
     }
   }
 };
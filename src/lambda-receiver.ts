@@ -1,9 +1,20 @@
 import { APIGatewayProxyHandler } from "aws-lambda";
-import { SQS } from "@aws-sdk/client-sqs";
-import { App, AwsLambdaReceiver } from "@slack/bolt";
-import { config } from "./config";
+import { App, AwsLambdaReceiver, BlockAction, ButtonAction } from "@slack/bolt";
+import { getEnvConfig } from "./config";
+import logger from "./logger";
+import {
+  EventQueueService,
+  isDirectMessage,
+} from "./services/event-queue.service";
+import { ORDER_ACTION_PATTERN } from "./services/order-blocks";
+import { PAYMENT_REACTIONS } from "./services/payment.service";
 
-const sqs = new SQS();
+// The receiver only queues events; the model is called by the processor
+const config = getEnvConfig({ llm: false });
+if (!config.eventsQueueUrl) {
+  throw new Error("EVENTS_QUEUE_URL is not set");
+}
+const eventQueueService = new EventQueueService(config.eventsQueueUrl);
 
 const awsLambdaReceiver = new AwsLambdaReceiver({
   signingSecret: config.slackSigningSecret,
@@ -15,10 +26,87 @@ const app = new App({
 });
 
 // Queue events instead of processing them
-app.event("app_mention", async ({ event }) => {
-  await sqs.sendMessage({
-    QueueUrl: process.env.EVENTS_QUEUE_URL!,
-    MessageBody: JSON.stringify(event),
+app.event("app_mention", async ({ event, body, context }) => {
+  // A timeout retry means the original delivery most likely reached the
+  // queue; the processor deduplicates anything that slips through
+  if (context.retryNum && context.retryReason === "http_timeout") {
+    logger.info("Ignoring Slack timeout retry", {
+      eventId: body.event_id,
+      retryNum: context.retryNum,
+    });
+    return;
+  }
+
+  await eventQueueService.enqueue({
+    kind: "app_mention",
+    eventId: body.event_id,
+    enqueuedAt: new Date().toISOString(),
+    payload: event,
+  });
+});
+
+// Only DMs to the bot, edits and deletions matter; every other message
+// event is dropped here
+app.event("message", async ({ event, body, context }) => {
+  if (context.retryNum && context.retryReason === "http_timeout") return;
+
+  if (isDirectMessage(event)) {
+    await eventQueueService.enqueue({
+      kind: "direct_message",
+      eventId: body.event_id,
+      enqueuedAt: new Date().toISOString(),
+      payload: event,
+    });
+    return;
+  }
+  if (
+    event.subtype !== "message_changed" &&
+    event.subtype !== "message_deleted"
+  ) {
+    return;
+  }
+
+  await eventQueueService.enqueue({
+    kind: "message_change",
+    eventId: body.event_id,
+    enqueuedAt: new Date().toISOString(),
+    payload: event,
+  });
+});
+
+// Only payment reactions are worth a trip through the queue
+for (const type of ["reaction_added", "reaction_removed"] as const) {
+  app.event(type, async ({ event, body, context }) => {
+    if (!PAYMENT_REACTIONS.has(event.reaction)) return;
+    if (context.retryNum && context.retryReason === "http_timeout") return;
+
+    await eventQueueService.enqueue({
+      kind: "reaction",
+      eventId: body.event_id,
+      enqueuedAt: new Date().toISOString(),
+      payload: event,
+    });
+  });
+}
+
+app.action<BlockAction<ButtonAction>>(
+  ORDER_ACTION_PATTERN,
+  async ({ body, ack }) => {
+    await ack();
+    await eventQueueService.enqueue({
+      kind: "block_action",
+      enqueuedAt: new Date().toISOString(),
+      payload: body,
+    });
+  }
+);
+
+app.command("/garcon", async ({ command, ack }) => {
+  await ack();
+  await eventQueueService.enqueue({
+    kind: "slash_command",
+    enqueuedAt: new Date().toISOString(),
+    payload: command,
   });
 });
 
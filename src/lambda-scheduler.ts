@@ -0,0 +1,36 @@
+import { ScheduledHandler } from "aws-lambda";
+import { createServices } from "./container";
+import { getEnvConfig } from "./config";
+import { DEADLINE_MARGIN_MS } from "./services/retry";
+
+const config = getEnvConfig();
+
+// Memory and /tmp are private to this container, so the scheduler would
+// never see the rounds the processor opened
+if (config.storage.driver !== "dynamodb") {
+  throw new Error(
+    `The scheduler needs shared storage; set STORAGE_DRIVER=dynamodb (got "${config.storage.driver}")`
+  );
+}
+
+const { slackService, cutoffService, retryPolicy } = createServices(config);
+
+let initialized = false;
+
+/**
+ * Runs once a minute from EventBridge: reminds unconfirmed participants
+ * before an order cutoff and freezes rounds whose cutoff has passed
+ */
+export const handler: ScheduledHandler = async (_event, context) => {
+  retryPolicy.setDeadline(
+    Date.now() + context.getRemainingTimeInMillis() - DEADLINE_MARGIN_MS
+  );
+
+  // Initialize once per container
+  if (!initialized) {
+    await slackService.initialize();
+    initialized = true;
+  }
+
+  await cutoffService.runDue();
+};
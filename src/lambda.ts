@@ -1,11 +1,14 @@
 import { APIGatewayProxyHandler } from "aws-lambda";
-import { App, AwsLambdaReceiver } from "@slack/bolt";
-import { config } from "./config";
-import { GeminiService } from "./services/gemini.service";
-import { SlackService } from "./services/slack.service";
-import { ImageProcessingService } from "./services/image-processing.service";
-import { EventHandlerService } from "./services/event-handler.service";
+import { App, AwsLambdaReceiver, BlockAction, ButtonAction } from "@slack/bolt";
+import { getEnvConfig } from "./config";
+import { createServices } from "./container";
+import { isDirectMessage } from "./services/event-queue.service";
+import { messageEventKey } from "./services/idempotency.service";
+import { ORDER_ACTION_PATTERN } from "./services/order-blocks";
+import { PAYMENT_REACTIONS } from "./services/payment.service";
+import { DEADLINE_MARGIN_MS } from "./services/retry";
 
+const config = getEnvConfig();
 const awsLambdaReceiver = new AwsLambdaReceiver({
   signingSecret: config.slackSigningSecret,
 });
@@ -15,25 +18,75 @@ const app = new App({
   receiver: awsLambdaReceiver,
 });
 
-const slackService = new SlackService(config.slackBotToken);
-const geminiService = new GeminiService(
-  config.geminiApiKey,
-  config.geminiModel
-);
-const imageProcessingService = new ImageProcessingService();
-
-const eventHandlerService = new EventHandlerService(
+const {
   slackService,
-  geminiService,
-  imageProcessingService
-);
+  eventHandlerService,
+  commandHandlerService,
+  actionHandlerService,
+  idempotencyService,
+  retryPolicy,
+} = createServices(config);
+
+// Set per invocation; events are handled within the invocation that got them
+let deadline: number | undefined;
 
 slackService.initialize().catch((error) => {
   console.error("Failed to initialize SlackService:", error);
 });
 
-app.event("app_mention", async ({ event }) => {
-  await eventHandlerService.handleAppMention(event);
+app.event("app_mention", async ({ event, body }) => {
+  await idempotencyService.runOnce(
+    messageEventKey(event),
+    (attempt) => eventHandlerService.handleAppMention(event, deadline, attempt),
+    body.event_id
+  );
+});
+
+app.event("message", async ({ event, body }) => {
+  if (isDirectMessage(event)) {
+    await idempotencyService.runOnce(
+      messageEventKey(event),
+      (attempt) =>
+        eventHandlerService.handleDirectMessage(event, deadline, attempt),
+      body.event_id
+    );
+    return;
+  }
+  if (
+    event.subtype !== "message_changed" &&
+    event.subtype !== "message_deleted"
+  ) {
+    return;
+  }
+  await idempotencyService.runOnce(
+    `change:${event.channel}:${event.ts}`,
+    () => eventHandlerService.handleMessageChange(event, deadline),
+    body.event_id
+  );
+});
+
+for (const type of ["reaction_added", "reaction_removed"] as const) {
+  app.event(type, async ({ event, body }) => {
+    if (!PAYMENT_REACTIONS.has(event.reaction)) return;
+    await idempotencyService.runOnce(
+      `reaction:${event.event_ts}`,
+      () => eventHandlerService.handleReaction(event),
+      body.event_id
+    );
+  });
+}
+
+app.action<BlockAction<ButtonAction>>(
+  ORDER_ACTION_PATTERN,
+  async ({ body, ack }) => {
+    await ack();
+    await actionHandlerService.handleBlockAction(body);
+  }
+);
+
+app.command("/garcon", async ({ command, ack }) => {
+  await ack();
+  await commandHandlerService.handleCommand(command, deadline);
 });
 
 export const handler = async (
@@ -41,6 +94,9 @@ export const handler = async (
   context: Parameters<APIGatewayProxyHandler>[1],
   callback: Parameters<APIGatewayProxyHandler>[2]
 ): Promise<ReturnType<APIGatewayProxyHandler>> => {
+  deadline =
+    Date.now() + context.getRemainingTimeInMillis() - DEADLINE_MARGIN_MS;
+  retryPolicy.setDeadline(deadline);
   const lambdaHandler = await awsLambdaReceiver.start();
   return lambdaHandler(event, context, callback);
 };
@@ -0,0 +1,30 @@
+/**
+ * Authoritative context for replies in a direct message, where there is no
+ * order thread: who Garçon is talking to, their running tab and the open
+ * orders they are part of
+ * @param userName - Display name of the person messaging the bot
+ * @param tab - Their balance across all threads, as rendered for Slack
+ * @param openOrders - One line per open order round they have items in
+ * @returns Prompt context block
+ */
+export function buildDirectMessageContext(
+  userName: string | undefined,
+  tab: string,
+  openOrders: string[]
+): string {
+  return [
+    "## Direct Message",
+    `This is a private direct message with ${userName ?? "a teammate"}, not an order thread; nobody else can see it.`,
+    "- Answer questions about what they owe, are owed or have ordered from the sections below, which are Garçon's saved records. Never guess amounts that aren't there.",
+    "- Orders are only taken in channel threads. If they try to order or change an order here, tell them to post it in the ordering thread.",
+    "- Slack mentions like <@U123> and channel links like <#C123> can be used as-is.",
+    "",
+    "## Their Tab",
+    tab,
+    "",
+    "## Their Open Orders",
+    openOrders.length > 0
+      ? openOrders.join("\n")
+      : "They are not part of any open order round.",
+  ].join("\n");
+}
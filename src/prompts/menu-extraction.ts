@@ -0,0 +1,100 @@
+import { Schema, Type } from "@google/genai";
+import { MenuItem } from "../services/menu-catalog.service";
+
+/**
+ * Menu read from a posted photo or file; isMenu is false for receipts,
+ * food photos, etc.
+ */
+export interface MenuExtraction {
+  isMenu: boolean;
+  /** Missing when neither the menu nor the poster names the restaurant */
+  restaurant?: string;
+  currency: string;
+  city?: string;
+  items: MenuItem[];
+}
+
+export const MENU_EXTRACTION_INSTRUCTION = `You transcribe restaurant menus from photos, PDFs and screenshots (e.g. a Talabat or Elmenus menu page) so their prices can be used for estimates.
+
+- Set isMenu to false if the attachment is not a menu or price list (e.g. a receipt, a chat screenshot, food photos).
+- restaurant is the restaurant's name. Prefer the name the poster wrote in their message; otherwise use the name printed on the menu. Leave it empty if neither says.
+- Copy every item with its price as printed. When an item comes in sizes, list each size as its own item, e.g. "Koshary (large)".
+- When the menu prints a name in both English and Arabic, use the English one as name and put the Arabic one in aliases.
+- category is the menu section the item is listed under, if any.
+- currency is an ISO code; assume EGP for Egyptian menus.
+- Never guess prices that aren't printed.`;
+
+export const menuExtractionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    isMenu: { type: Type.BOOLEAN },
+    restaurant: { type: Type.STRING },
+    currency: { type: Type.STRING },
+    city: { type: Type.STRING },
+    items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          price: { type: Type.NUMBER },
+          aliases: { type: Type.ARRAY, items: { type: Type.STRING } },
+          category: { type: Type.STRING },
+        },
+        required: ["name", "price"],
+      },
+    },
+  },
+  required: ["isMenu"],
+};
+
+type Raw = Record<string, unknown>;
+
+function isObject(value: unknown): value is Raw {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() !== ""
+    ? value.trim()
+    : undefined;
+}
+
+/**
+ * Validates and normalizes raw model output into a MenuExtraction
+ * @param raw - Parsed JSON returned by the model
+ * @returns Normalized extraction with unpriced items dropped
+ * @throws {Error} If the output does not have the expected shape
+ */
+export function parseMenuExtraction(raw: unknown): MenuExtraction {
+  if (!isObject(raw)) {
+    throw new Error("Menu extraction returned an unexpected shape");
+  }
+
+  const items = (Array.isArray(raw.items) ? raw.items : [])
+    .filter(isObject)
+    .filter(
+      (item) =>
+        optionalString(item.name) !== undefined &&
+        Number.isFinite(Number(item.price)) &&
+        Number(item.price) > 0
+    )
+    .map((item): MenuItem => ({
+      name: optionalString(item.name) as string,
+      price: Number(item.price),
+      aliases: Array.isArray(item.aliases)
+        ? item.aliases
+            .map(optionalString)
+            .filter((alias): alias is string => alias !== undefined)
+        : undefined,
+      category: optionalString(item.category),
+    }));
+
+  return {
+    isMenu: raw.isMenu === true && items.length > 0,
+    restaurant: optionalString(raw.restaurant),
+    currency: (optionalString(raw.currency) ?? "EGP").toUpperCase(),
+    city: optionalString(raw.city),
+    items,
+  };
+}
@@ -0,0 +1,175 @@
+import { Schema, Type } from "@google/genai";
+import {
+  OrderItem,
+  OrderUpdate,
+  Payer,
+} from "../services/order-session.service";
+
+const ORDER_UPDATE_INSTRUCTION = `You maintain the order list of a Slack food ordering thread.
+You are given the current saved order state and ONLY the messages posted since it was saved.
+Report what those new messages change; do not repeat participants whose orders did not change.
+
+- For each participant whose order changed, return their COMPLETE new list of items (it replaces the old list).
+- Set removed to true when a participant cancels their whole order.
+- Use the message author's name and user ID when someone orders for themselves. When someone orders on behalf of another person, use that person's name.
+- quantity defaults to 1. Put customizations (no onions, extra spicy) in notes.
+- adjustments are manual instructions about the bill or the order made outside the normal flow (e.g. "I'll cover the delivery", "add a Pepsi for Omar, he ordered by phone"). Include an amount only if one is stated.
+- payer is the person who paid the restaurant or delivery app for everyone. Set it only when a new message says so (e.g. "I paid Talabat", "أنا اللي دفعت الأوردر").
+- payments lists people who say they have paid their share back to the payer (e.g. "@Garçon I paid", "حولتلك يا أحمد", "sent you 150"). Use the author's name and user ID. Once a payer is saved, "I paid" from anyone else means they paid their share.
+- cutoff is set when someone asks Garçon to close orders at a time (e.g. "close orders at 12:30", "آخر معاد الساعة ١"). Return it as HH:MM on a 24-hour clock; lunch times like "1:30" mean 13:30.
+- restaurant is the restaurant the thread is ordering from. Set it only when a new message names it (e.g. "ordering from Abou Tarek", "هنطلب من كشري التحرير").
+- Keep item names as written; Garçon matches them to the restaurant's menu itself.
+- Ignore chit-chat and questions to Garçon that don't change any order.`;
+
+/**
+ * Builds the update instruction with the current session state embedded
+ * @param currentState - Current session rendered as JSON
+ * @returns System instruction for the order update call
+ */
+export function buildOrderUpdateInstruction(currentState: string): string {
+  return `${ORDER_UPDATE_INSTRUCTION}
+
+Current saved order state:
+${currentState}`;
+}
+
+export const orderUpdateSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    participants: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          userId: { type: Type.STRING },
+          removed: { type: Type.BOOLEAN },
+          items: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                quantity: { type: Type.NUMBER },
+                notes: { type: Type.STRING },
+              },
+              required: ["name", "quantity"],
+            },
+          },
+        },
+        required: ["name", "items"],
+      },
+    },
+    adjustments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          description: { type: Type.STRING },
+          participant: { type: Type.STRING },
+          amount: { type: Type.NUMBER },
+        },
+        required: ["description"],
+      },
+    },
+    payer: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING },
+        userId: { type: Type.STRING },
+      },
+      required: ["name"],
+    },
+    cutoff: { type: Type.STRING },
+    restaurant: { type: Type.STRING },
+    payments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          userId: { type: Type.STRING },
+        },
+        required: ["name"],
+      },
+    },
+  },
+  required: ["participants", "adjustments"],
+};
+
+type Raw = Record<string, unknown>;
+
+function isObject(value: unknown): value is Raw {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() !== ""
+    ? value.trim()
+    : undefined;
+}
+
+function toPayer(value: unknown): Payer | undefined {
+  if (!isObject(value)) return undefined;
+  const name = optionalString(value.name);
+  return name ? { name, userId: optionalString(value.userId) } : undefined;
+}
+
+/**
+ * Validates and normalizes raw model output into an OrderUpdate
+ * @param raw - Parsed JSON returned by the model
+ * @returns Normalized update with invalid entries dropped
+ * @throws {Error} If the output does not have the expected shape
+ */
+export function parseOrderUpdate(raw: unknown): OrderUpdate {
+  if (!isObject(raw)) {
+    throw new Error("Order update returned an unexpected shape");
+  }
+
+  const participants = (Array.isArray(raw.participants) ? raw.participants : [])
+    .filter(isObject)
+    .filter((p) => optionalString(p.name) !== undefined)
+    .map((p) => ({
+      name: optionalString(p.name) as string,
+      userId: optionalString(p.userId),
+      removed: p.removed === true,
+      items: (Array.isArray(p.items) ? p.items : [])
+        .filter(isObject)
+        .filter((item) => optionalString(item.name) !== undefined)
+        .map((item): OrderItem => ({
+          name: optionalString(item.name) as string,
+          quantity:
+            Number.isFinite(Number(item.quantity)) && Number(item.quantity) > 0
+              ? Number(item.quantity)
+              : 1,
+          notes: optionalString(item.notes),
+        })),
+    }));
+
+  const adjustments = (Array.isArray(raw.adjustments) ? raw.adjustments : [])
+    .filter(isObject)
+    .filter((a) => optionalString(a.description) !== undefined)
+    .map((a) => ({
+      description: optionalString(a.description) as string,
+      participant: optionalString(a.participant),
+      amount:
+        Number.isFinite(Number(a.amount)) &&
+        a.amount !== null &&
+        a.amount !== undefined
+          ? Number(a.amount)
+          : undefined,
+    }));
+
+  const payments = (Array.isArray(raw.payments) ? raw.payments : [])
+    .map(toPayer)
+    .filter((payment): payment is Payer => payment !== undefined);
+
+  return {
+    participants,
+    adjustments,
+    payer: toPayer(raw.payer),
+    payments,
+    cutoff: optionalString(raw.cutoff),
+    restaurant: optionalString(raw.restaurant),
+  };
+}
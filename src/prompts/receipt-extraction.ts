@@ -0,0 +1,141 @@
+import { Schema, Type } from "@google/genai";
+
+export interface ReceiptLineItem {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+/**
+ * Receipt as printed, extracted from an image. Amounts are absolute values
+ * in the receipt's currency; missing charges are zero.
+ */
+export interface Receipt {
+  restaurant?: string;
+  currency: string;
+  items: ReceiptLineItem[];
+  deliveryFee: number;
+  serviceCharge: number;
+  vat: number;
+  discount: number;
+  total: number;
+}
+
+/**
+ * Raw extraction result; isReceipt is false for menus, screenshots, etc.
+ */
+export interface ReceiptExtraction {
+  isReceipt: boolean;
+  receipt?: Receipt;
+}
+
+export const RECEIPT_EXTRACTION_INSTRUCTION = `You read restaurant receipts from images, PDFs and text e-receipts (e.g. Talabat or Elmenus order emails) and transcribe them exactly.
+
+- Set isReceipt to false if the attachment is not a receipt or bill (e.g. a menu, a screenshot of a chat, food photos).
+- Copy every line item with its quantity and unit price as printed. If only a line total is printed, divide it by the quantity.
+- deliveryFee, serviceCharge, vat and discount are absolute amounts as printed; use 0 when absent. discount is a positive number.
+- total is the final amount payable printed on the receipt.
+- currency is an ISO code; assume EGP for Egyptian receipts.
+- Never correct or recompute the printed numbers, even if they look wrong.`;
+
+export const receiptExtractionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    isReceipt: { type: Type.BOOLEAN },
+    receipt: {
+      type: Type.OBJECT,
+      properties: {
+        restaurant: { type: Type.STRING },
+        currency: { type: Type.STRING },
+        items: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING },
+              quantity: { type: Type.NUMBER },
+              unitPrice: { type: Type.NUMBER },
+            },
+            required: ["name", "quantity", "unitPrice"],
+          },
+        },
+        deliveryFee: { type: Type.NUMBER },
+        serviceCharge: { type: Type.NUMBER },
+        vat: { type: Type.NUMBER },
+        discount: { type: Type.NUMBER },
+        total: { type: Type.NUMBER },
+      },
+      required: [
+        "currency",
+        "items",
+        "deliveryFee",
+        "serviceCharge",
+        "vat",
+        "discount",
+        "total",
+      ],
+    },
+  },
+  required: ["isReceipt"],
+};
+
+type Raw = Record<string, unknown>;
+
+function isObject(value: unknown): value is Raw {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown, fallback = 0): number {
+  const num = Number(value);
+  return value !== null && value !== undefined && Number.isFinite(num)
+    ? num
+    : fallback;
+}
+
+/**
+ * Validates and normalizes raw model output into a ReceiptExtraction
+ * @param raw - Parsed JSON returned by the model
+ * @returns Normalized extraction
+ * @throws {Error} If a receipt is claimed but malformed
+ */
+export function parseReceiptExtraction(raw: unknown): ReceiptExtraction {
+  if (!isObject(raw)) {
+    throw new Error("Receipt extraction returned an unexpected shape");
+  }
+  if (raw.isReceipt !== true) {
+    return { isReceipt: false };
+  }
+  if (!isObject(raw.receipt) || !Array.isArray(raw.receipt.items)) {
+    throw new Error("Receipt extraction is missing receipt details");
+  }
+
+  const receipt = raw.receipt;
+  const total = toNumber(receipt.total, NaN);
+  if (!Number.isFinite(total) || total <= 0) {
+    throw new Error("Receipt extraction is missing the printed total");
+  }
+
+  return {
+    isReceipt: true,
+    receipt: {
+      restaurant:
+        typeof receipt.restaurant === "string" && receipt.restaurant
+          ? receipt.restaurant
+          : undefined,
+      currency:
+        typeof receipt.currency === "string" && receipt.currency
+          ? receipt.currency.toUpperCase()
+          : "EGP",
+      items: (receipt.items as unknown[]).filter(isObject).map((item) => ({
+        name: String(item.name ?? "item"),
+        quantity: toNumber(item.quantity, 1),
+        unitPrice: toNumber(item.unitPrice),
+      })),
+      deliveryFee: toNumber(receipt.deliveryFee),
+      serviceCharge: toNumber(receipt.serviceCharge),
+      vat: toNumber(receipt.vat),
+      discount: Math.abs(toNumber(receipt.discount)),
+      total,
+    },
+  };
+}
@@ -0,0 +1,210 @@
+import { Schema, Type } from "@google/genai";
+import {
+  SplitDiscount,
+  SplitInput,
+  SplitOverride,
+  SplitParticipant,
+} from "../services/bill-split.service";
+import { Receipt } from "./receipt-extraction";
+
+/**
+ * Structured inputs the model extracts from a thread for the split engine
+ */
+export interface SplitExtraction {
+  /** Whether the thread contains a receipt or an explicit request to split */
+  shouldSplit: boolean;
+  input: SplitInput;
+}
+
+export const SPLIT_EXTRACTION_INSTRUCTION = `You extract structured bill-splitting inputs from a Slack food ordering thread.
+Do NOT calculate any totals yourself; only report the numbers as they appear.
+
+- Set shouldSplit to true only when a receipt (image or typed amounts) has been posted or someone explicitly asks to split the bill.
+- List every participant with the items they ordered and the unit price of each item as printed on the receipt.
+- Without a receipt, use the menu prices listed in the saved order state as unit prices.
+- Items on the receipt that nobody in the thread ordered go under a participant named "Offline Orders".
+- Drop participants who removed their order, unless the thread says otherwise.
+- deliveryFee, serviceCharge and vat are absolute amounts from the receipt. Only use serviceRate/vatRate (fractions, e.g. 0.12) when the receipt gives a rate but no amount.
+- total is the final amount printed on the receipt, if any.
+- discounts: promo codes or vouchers; set participant only when the discount belongs to one person.
+- overrides: manual instructions fixing what someone pays in total (e.g. "Ahmed pays 200 flat").
+- Use participant names exactly as they appear as message authors.`;
+
+/**
+ * Builds the extraction instruction, including the saved order state and
+ * the transcribed receipt when available so the model only has to match
+ * items to people
+ * @param receipt - Receipt extracted from the thread's images, if any
+ * @param orderState - Saved order state rendered for the prompt, if any
+ * @returns System instruction for the split extraction call
+ */
+export function buildSplitExtractionInstruction(
+  receipt?: Receipt | null,
+  orderState?: string
+): string {
+  const sections = [SPLIT_EXTRACTION_INSTRUCTION];
+
+  if (orderState) {
+    sections.push(
+      `Use the saved order state below as the authoritative list of who ordered what:\n${orderState}`
+    );
+  }
+
+  if (receipt) {
+    sections.push(
+      `The latest receipt in the thread has already been transcribed as JSON below. Use its item names and unit prices when assigning items to participants; its charges and total are applied separately.\n${JSON.stringify(receipt)}`
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+const moneyItem: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    quantity: { type: Type.NUMBER },
+    unitPrice: { type: Type.NUMBER },
+  },
+  required: ["name", "quantity", "unitPrice"],
+};
+
+export const splitExtractionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    shouldSplit: { type: Type.BOOLEAN },
+    input: {
+      type: Type.OBJECT,
+      properties: {
+        participants: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING },
+              items: { type: Type.ARRAY, items: moneyItem },
+            },
+            required: ["name", "items"],
+          },
+        },
+        deliveryFee: { type: Type.NUMBER },
+        serviceCharge: { type: Type.NUMBER },
+        serviceRate: { type: Type.NUMBER },
+        vat: { type: Type.NUMBER },
+        vatRate: { type: Type.NUMBER },
+        total: { type: Type.NUMBER },
+        currency: { type: Type.STRING },
+        discounts: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              amount: { type: Type.NUMBER },
+              percent: { type: Type.NUMBER },
+              participant: { type: Type.STRING },
+            },
+          },
+        },
+        overrides: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              participant: { type: Type.STRING },
+              total: { type: Type.NUMBER },
+            },
+            required: ["participant", "total"],
+          },
+        },
+      },
+      required: ["participants"],
+    },
+  },
+  required: ["shouldSplit", "input"],
+};
+
+type Raw = Record<string, unknown>;
+
+function isObject(value: unknown): value is Raw {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : undefined;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Validates and normalizes raw model output into a SplitExtraction
+ * @param raw - Parsed JSON returned by the model
+ * @returns Normalized extraction with invalid entries dropped
+ * @throws {Error} If the output does not have the expected shape
+ */
+export function parseSplitExtraction(raw: unknown): SplitExtraction {
+  if (!isObject(raw) || !isObject(raw.input)) {
+    throw new Error("Split extraction returned an unexpected shape");
+  }
+  const input = raw.input;
+
+  const participants: SplitParticipant[] = asArray(input.participants)
+    .filter(isObject)
+    .filter((p) => typeof p.name === "string" && p.name.trim() !== "")
+    .map((p) => ({
+      name: String(p.name).trim(),
+      items: asArray(p.items)
+        .filter(isObject)
+        .map((item) => ({
+          name: String(item.name ?? "item"),
+          quantity: optionalNumber(item.quantity) ?? 1,
+          unitPrice: optionalNumber(item.unitPrice) ?? 0,
+        })),
+    }));
+
+  const discounts: SplitDiscount[] = asArray(input.discounts)
+    .filter(isObject)
+    .map((d) => ({
+      amount: optionalNumber(d.amount),
+      percent: optionalNumber(d.percent),
+      participant:
+        typeof d.participant === "string" && d.participant
+          ? d.participant
+          : undefined,
+    }))
+    .filter((d) => d.amount !== undefined || d.percent !== undefined);
+
+  const overrides: SplitOverride[] = asArray(input.overrides)
+    .filter(isObject)
+    .filter(
+      (o) =>
+        typeof o.participant === "string" &&
+        optionalNumber(o.total) !== undefined
+    )
+    .map((o) => ({
+      participant: String(o.participant),
+      total: optionalNumber(o.total) as number,
+    }));
+
+  return {
+    shouldSplit: raw.shouldSplit === true,
+    input: {
+      participants,
+      deliveryFee: optionalNumber(input.deliveryFee),
+      serviceCharge: optionalNumber(input.serviceCharge),
+      serviceRate: optionalNumber(input.serviceRate),
+      vat: optionalNumber(input.vat),
+      vatRate: optionalNumber(input.vatRate),
+      total: optionalNumber(input.total),
+      currency:
+        typeof input.currency === "string" && input.currency
+          ? input.currency
+          : undefined,
+      discounts,
+      overrides,
+    },
+  };
+}
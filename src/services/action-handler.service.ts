@@ -0,0 +1,217 @@
+import { BlockAction, ButtonAction } from "@slack/bolt";
+import logger from "../logger";
+import { BillSplitService } from "./bill-split.service";
+import { CutoffService } from "./cutoff.service";
+import {
+  buildOrderSummaryBlocks,
+  buildReplyBlocks,
+  buildSplitBlocks,
+  ORDER_ACTION_PATTERN,
+  OrderAction,
+  OrderActionValue,
+  parseOrderActionValue,
+} from "./order-blocks";
+import {
+  OrderSession,
+  OrderSessionService,
+  Participant,
+} from "./order-session.service";
+import { isPayer, PaymentService } from "./payment.service";
+import { SlackService } from "./slack.service";
+
+interface ActionOutcome {
+  /** Whether the session changed and the message needs redrawing */
+  changed: boolean;
+  /** Ephemeral note for the person who clicked */
+  message?: string;
+}
+
+function refuse(message: string): ActionOutcome {
+  return { changed: false, message };
+}
+
+/**
+ * Handles clicks on the order summary and bill split buttons. Can be used by
+ * both Socket Mode and Lambda
+ */
+export class ActionHandlerService {
+  constructor(
+    private slackService: SlackService,
+    private orderSessionService: OrderSessionService,
+    private billSplitService: BillSplitService,
+    private paymentService: PaymentService,
+    private cutoffService: CutoffService
+  ) {}
+
+  /**
+   * Applies a button click to the thread's session and re-renders the
+   * message the button was on. Refusals are sent ephemerally to the clicker.
+   * @param body - Slack block_actions payload
+   */
+  async handleBlockAction(body: BlockAction<ButtonAction>): Promise<void> {
+    const action = body.actions[0];
+    const kind = action?.action_id.match(ORDER_ACTION_PATTERN)?.[1] as
+      OrderAction | undefined;
+    const value = parseOrderActionValue(action?.value);
+    const channel = body.channel?.id;
+    const messageTs = body.message?.ts;
+    if (!kind || !value || !channel || !messageTs) {
+      logger.warn("Ignoring unrecognized block action", {
+        actionId: action?.action_id,
+      });
+      return;
+    }
+
+    const threadTs: string = body.message?.thread_ts ?? messageTs;
+    const userId = body.user.id;
+    logger.info("Order button clicked", {
+      channel,
+      threadTs,
+      user: userId,
+      action: kind,
+      participant: value.participant,
+    });
+
+    const session = await this.orderSessionService.find(channel, threadTs);
+    const participant =
+      session &&
+      this.orderSessionService.findParticipant(session, value.participant);
+    if (!session || !participant) {
+      await this.slackService.postEphemeral(
+        channel,
+        userId,
+        `I can't find ${value.participant}'s order anymore - mention me in the thread to refresh it.`,
+        threadTs
+      );
+      return;
+    }
+
+    // No confirming or changing past the cutoff, even before the scheduler runs
+    await this.cutoffService.enforce(session);
+    const outcome = this.apply(kind, session, participant, userId);
+    if (outcome.message) {
+      await this.slackService.postEphemeral(
+        channel,
+        userId,
+        outcome.message,
+        threadTs
+      );
+    }
+    if (!outcome.changed) return;
+
+    await this.orderSessionService.save(session);
+    await this.rerender(session, value, channel, messageTs);
+  }
+
+  /**
+   * Updates the participant for a click
+   * @returns Whether the session changed, and a message for the clicker
+   */
+  private apply(
+    kind: OrderAction,
+    session: OrderSession,
+    participant: Participant,
+    userId: string
+  ): ActionOutcome {
+    // Orders without a Slack user, e.g. placed for someone else, are looked
+    // after by whoever runs the round
+    const isOwner = participant.userId
+      ? participant.userId === userId
+      : userId === session.payer?.userId || userId === session.openedBy;
+    const [owner, order] = participant.userId
+      ? [participant.name, "their own order"]
+      : [
+          "whoever started this order or paid the bill",
+          `${participant.name}'s order`,
+        ];
+
+    switch (kind) {
+      case "confirm":
+        if (!isOwner) {
+          return refuse(`Only ${owner} can confirm ${order} 🙂`);
+        }
+        if (session.status !== "open") {
+          return refuse(`Orders are already ${session.status}.`);
+        }
+        participant.confirmedAt = participant.confirmedAt
+          ? undefined
+          : new Date().toISOString();
+        return { changed: true };
+
+      case "change":
+        if (!isOwner) {
+          return refuse(`Only ${owner} can change ${order}.`);
+        }
+        if (session.status !== "open") {
+          return refuse(
+            `Orders are already ${session.status} - no more changes.`
+          );
+        }
+        participant.confirmedAt = undefined;
+        return {
+          changed: true,
+          message:
+            "✏️ Reply in the thread with what you'd like instead and mention me - I'll update your order.",
+        };
+
+      case "paid":
+        if (isPayer(session, participant)) {
+          return refuse(
+            `${participant.name} paid the bill - there's nothing to pay back.`
+          );
+        }
+        // Anyone may mark a share as paid: usually it's whoever collects
+        return {
+          changed: participant.paidAt
+            ? this.paymentService.markUnpaid(session, participant)
+            : this.paymentService.markPaid(session, participant, "button"),
+        };
+    }
+  }
+
+  /**
+   * Redraws the message a button was clicked on with the new state
+   */
+  private async rerender(
+    session: OrderSession,
+    value: OrderActionValue,
+    channel: string,
+    messageTs: string
+  ): Promise<void> {
+    // Replies to mentions carry text around their summary and split
+    if (
+      messageTs === session.lastReplyTs &&
+      session.lastReplyText !== undefined
+    ) {
+      const split = session.splitMessageTs?.includes(messageTs)
+        ? session.split
+        : undefined;
+      await this.slackService.updateMessage(
+        channel,
+        messageTs,
+        split
+          ? `${session.lastReplyText}\n\n${this.billSplitService.formatSplit(split)}`
+          : session.lastReplyText,
+        buildReplyBlocks(session, session.lastReplyText, split)
+      );
+      return;
+    }
+
+    if (value.view === "split" && session.split) {
+      await this.slackService.updateMessage(
+        channel,
+        messageTs,
+        this.billSplitService.formatSplit(session.split),
+        buildSplitBlocks(session, session.split)
+      );
+      return;
+    }
+
+    await this.slackService.updateMessage(
+      channel,
+      messageTs,
+      this.orderSessionService.formatSummary(session),
+      buildOrderSummaryBlocks(session)
+    );
+  }
+}
@@ -0,0 +1,223 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  allocate,
+  BillSplitService,
+  SplitParticipant,
+  SplitResult,
+} from "./bill-split.service";
+
+const service = new BillSplitService();
+
+function person(name: string, unitPrice: number): SplitParticipant {
+  return { name, items: [{ name: "Koshary", quantity: 1, unitPrice }] };
+}
+
+function totalsOf(result: SplitResult): Record<string, number> {
+  return Object.fromEntries(
+    result.shares.map((share) => [share.name, share.total])
+  );
+}
+
+/** Sums shares in minor units, as the engine does */
+function sumOfShares(result: SplitResult): number {
+  return (
+    result.shares.reduce(
+      (sum, share) => sum + Math.round(share.total * 100),
+      0
+    ) / 100
+  );
+}
+
+describe("allocate", () => {
+  it("gives leftover units to the largest remainders", () => {
+    assert.deepEqual(allocate(100, [1, 1, 1]), [34, 33, 33]);
+    assert.deepEqual(allocate(10, [1, 2]), [3, 7]);
+  });
+
+  it("always sums back to the amount", () => {
+    const parts = allocate(1001, [3, 7, 11, 13]);
+    assert.equal(
+      parts.reduce((sum, part) => sum + part, 0),
+      1001
+    );
+  });
+
+  it("splits negative amounts symmetrically", () => {
+    assert.deepEqual(allocate(-100, [1, 1, 1]), [-34, -33, -33]);
+  });
+
+  it("splits equally when every weight is zero", () => {
+    assert.deepEqual(allocate(5, [0, 0]), [3, 2]);
+  });
+
+  it("returns nothing for no weights", () => {
+    assert.deepEqual(allocate(5, []), []);
+  });
+});
+
+describe("BillSplitService.split", () => {
+  it("splits delivery equally and rounds shares to piastres", () => {
+    const result = service.split({
+      participants: [
+        person("Karim", 10),
+        person("Sara", 10),
+        person("Mona", 10),
+      ],
+      deliveryFee: 10,
+    });
+
+    assert.deepEqual(
+      result.shares.map((share) => share.delivery),
+      [3.34, 3.33, 3.33]
+    );
+    // 14% VAT by default
+    assert.equal(result.vat, 4.2);
+    assert.deepEqual(totalsOf(result), {
+      Karim: 14.74,
+      Sara: 14.73,
+      Mona: 14.73,
+    });
+    assert.equal(result.total, 44.2);
+    assert.equal(sumOfShares(result), result.total);
+  });
+
+  it("charges service and VAT in proportion to items", () => {
+    const result = service.split({
+      participants: [person("Karim", 60), person("Sara", 40)],
+      serviceRate: 0.12,
+    });
+
+    assert.equal(result.service, 12);
+    // VAT is charged on items plus service
+    assert.equal(result.vat, 15.68);
+    assert.deepEqual(
+      result.shares.map((share) => [share.service, share.vat]),
+      [
+        [7.2, 9.41],
+        [4.8, 6.27],
+      ]
+    );
+    assert.deepEqual(totalsOf(result), { Karim: 76.61, Sara: 51.07 });
+    assert.equal(sumOfShares(result), result.total);
+  });
+
+  it("prefers absolute charges over rates", () => {
+    const result = service.split({
+      participants: [person("Karim", 50), person("Sara", 50)],
+      serviceCharge: 10,
+      serviceRate: 0.5,
+      vat: 7,
+      vatRate: 0.5,
+    });
+
+    assert.equal(result.service, 10);
+    assert.equal(result.vat, 7);
+    assert.equal(result.total, 117);
+  });
+
+  it("shares a bill-wide discount by item subtotal before charges", () => {
+    const result = service.split({
+      participants: [person("Karim", 60), person("Sara", 40)],
+      serviceRate: 0.1,
+      vatRate: 0,
+      discounts: [{ percent: 10 }],
+    });
+
+    assert.deepEqual(
+      result.shares.map((share) => share.discount),
+      [6, 4]
+    );
+    assert.equal(result.discount, 10);
+    // Service is charged on the discounted 90
+    assert.equal(result.service, 9);
+    assert.deepEqual(totalsOf(result), { Karim: 59.4, Sara: 39.6 });
+  });
+
+  it("takes a personal discount off one participant only", () => {
+    const result = service.split({
+      participants: [person("Karim", 60), person("Sara", 40)],
+      vatRate: 0,
+      discounts: [{ amount: 5, participant: " sara " }],
+    });
+
+    assert.deepEqual(totalsOf(result), { Karim: 60, Sara: 35 });
+  });
+
+  it("reconciles to the printed receipt total", () => {
+    const result = service.split({
+      participants: [person("Karim", 10), person("Sara", 10)],
+      vatRate: 0,
+      total: 20.01,
+    });
+
+    assert.equal(result.total, 20.01);
+    assert.equal(result.adjustment, 0.01);
+    assert.deepEqual(
+      result.shares.map((share) => share.adjustment),
+      [0.01, 0]
+    );
+    assert.equal(sumOfShares(result), result.total);
+  });
+
+  it("redistributes the rest of the bill around overrides", () => {
+    const result = service.split({
+      participants: [
+        person("Karim", 10),
+        person("Sara", 20),
+        person("Mona", 30),
+      ],
+      vatRate: 0,
+      overrides: [{ participant: "Karim", total: 5 }],
+    });
+
+    assert.deepEqual(totalsOf(result), { Karim: 5, Sara: 22, Mona: 33 });
+    assert.deepEqual(
+      result.shares.map((share) => share.overridden),
+      [true, false, false]
+    );
+    assert.equal(sumOfShares(result), result.total);
+  });
+
+  it("rejects overrides for everyone that miss the total", () => {
+    assert.throws(
+      () =>
+        service.split({
+          participants: [person("Karim", 10), person("Sara", 10)],
+          vatRate: 0,
+          overrides: [
+            { participant: "Karim", total: 10 },
+            { participant: "Sara", total: 5 },
+          ],
+        }),
+      /do not add up/
+    );
+  });
+
+  it("rejects unknown participants and empty bills", () => {
+    assert.throws(
+      () =>
+        service.split({
+          participants: [person("Karim", 10)],
+          discounts: [{ amount: 1, participant: "Ahmed" }],
+        }),
+      /Unknown participant in split: Ahmed/
+    );
+    assert.throws(() => service.split({ participants: [] }), /no participants/);
+  });
+});
+
+describe("BillSplitService.formatSplit", () => {
+  it("lists each share and only mentions discounts when there are any", () => {
+    const text = service.formatSplit(
+      service.split({
+        participants: [person("Karim", 60), person("Sara", 40)],
+        vatRate: 0,
+      })
+    );
+
+    assert.match(text, /• \*Karim:\* 60\.00 EGP/);
+    assert.match(text, /• Total Bill: 100\.00 EGP/);
+    assert.doesNotMatch(text, /Discount/);
+  });
+});
@@ -0,0 +1,346 @@
+import logger from "../logger";
+
+export interface SplitLineItem {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface SplitParticipant {
+  name: string;
+  items: SplitLineItem[];
+}
+
+/**
+ * A discount taken off the bill. Without a participant it is shared
+ * proportionally to item subtotals.
+ */
+export interface SplitDiscount {
+  amount?: number;
+  percent?: number;
+  participant?: string;
+}
+
+/**
+ * A manual override fixing what a participant pays in total.
+ */
+export interface SplitOverride {
+  participant: string;
+  total: number;
+}
+
+export interface SplitInput {
+  participants: SplitParticipant[];
+  deliveryFee?: number;
+  /** Absolute service charge; takes precedence over serviceRate */
+  serviceCharge?: number;
+  /** Service rate as a fraction, e.g. 0.12 */
+  serviceRate?: number;
+  /** Absolute VAT amount; takes precedence over vatRate */
+  vat?: number;
+  /** VAT rate as a fraction, defaults to Egypt's 14% */
+  vatRate?: number;
+  discounts?: SplitDiscount[];
+  overrides?: SplitOverride[];
+  /** Printed receipt total; the split is reconciled to it when present */
+  total?: number;
+  currency?: string;
+}
+
+export interface ParticipantShare {
+  name: string;
+  items: number;
+  discount: number;
+  delivery: number;
+  service: number;
+  vat: number;
+  /** Rounding reconciliation and override redistribution */
+  adjustment: number;
+  total: number;
+  percentage: number;
+  overridden: boolean;
+}
+
+export interface SplitResult {
+  shares: ParticipantShare[];
+  subtotal: number;
+  discount: number;
+  delivery: number;
+  service: number;
+  vat: number;
+  adjustment: number;
+  total: number;
+  currency: string;
+}
+
+export const DEFAULT_VAT_RATE = 0.14;
+
+/**
+ * Converts an amount to integer minor units (piastres/cents)
+ */
+function toMinor(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Converts integer minor units back to a decimal amount
+ */
+function fromMinor(minor: number): number {
+  return minor / 100;
+}
+
+/**
+ * Distributes an integer amount across weights using the largest remainder
+ * method, so the parts always sum back to the exact amount.
+ * Falls back to an equal split when all weights are zero.
+ */
+export function allocate(amount: number, weights: number[]): number[] {
+  if (weights.length === 0) return [];
+
+  const totalWeight = weights.reduce((sum, w) => sum + Math.max(w, 0), 0);
+  const effective =
+    totalWeight > 0 ? weights.map((w) => Math.max(w, 0)) : weights.map(() => 1);
+  const effectiveTotal = totalWeight > 0 ? totalWeight : weights.length;
+
+  const sign = amount < 0 ? -1 : 1;
+  const absolute = Math.abs(amount);
+  const exact = effective.map((w) => (absolute * w) / effectiveTotal);
+  const parts = exact.map(Math.floor);
+  let remainder = absolute - parts.reduce((sum, p) => sum + p, 0);
+
+  const order = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+
+  for (let i = 0; remainder > 0; i = (i + 1) % order.length) {
+    parts[order[i].index] += 1;
+    remainder -= 1;
+  }
+
+  return parts.map((p) => p * sign);
+}
+
+/**
+ * Deterministic bill splitting engine. All arithmetic is done in integer
+ * minor units so per-person totals always add up to the bill total.
+ */
+export class BillSplitService {
+  /**
+   * Splits a bill between participants
+   * @param input - Items per participant plus bill-level charges
+   * @returns Per-person breakdown and bill totals
+   * @throws {Error} If there are no participants or the input is invalid
+   */
+  split(input: SplitInput): SplitResult {
+    const { participants } = input;
+    if (participants.length === 0) {
+      throw new Error("Cannot split a bill with no participants");
+    }
+
+    const names = participants.map((p) => p.name);
+    const indexOf = (name: string): number => {
+      const index = names.findIndex(
+        (n) => n.trim().toLowerCase() === name.trim().toLowerCase()
+      );
+      if (index === -1) {
+        throw new Error(`Unknown participant in split: ${name}`);
+      }
+      return index;
+    };
+
+    const items = participants.map((p) =>
+      p.items.reduce(
+        (sum, item) => sum + toMinor(item.quantity * item.unitPrice),
+        0
+      )
+    );
+    const subtotal = items.reduce((sum, v) => sum + v, 0);
+
+    // Discounts reduce the base that service and VAT are charged on
+    const discounts = participants.map(() => 0);
+    for (const discount of input.discounts ?? []) {
+      if (discount.participant) {
+        const index = indexOf(discount.participant);
+        discounts[index] += this.discountAmount(discount, items[index]);
+      } else {
+        const amount = this.discountAmount(discount, subtotal);
+        allocate(amount, items).forEach((part, i) => (discounts[i] += part));
+      }
+    }
+    const discounted = items.map((v, i) => Math.max(v - discounts[i], 0));
+    const discountedSubtotal = discounted.reduce((sum, v) => sum + v, 0);
+
+    const deliveryTotal = toMinor(input.deliveryFee ?? 0);
+    const delivery = allocate(
+      deliveryTotal,
+      participants.map(() => 1)
+    );
+
+    const serviceTotal =
+      input.serviceCharge !== undefined
+        ? toMinor(input.serviceCharge)
+        : Math.round(discountedSubtotal * (input.serviceRate ?? 0));
+    const service = allocate(serviceTotal, discounted);
+
+    const vatTotal =
+      input.vat !== undefined
+        ? toMinor(input.vat)
+        : Math.round(
+            (discountedSubtotal + serviceTotal) *
+              (input.vatRate ?? DEFAULT_VAT_RATE)
+          );
+    const vat = allocate(vatTotal, discounted);
+
+    const componentTotals = participants.map(
+      (_, i) => discounted[i] + delivery[i] + service[i] + vat[i]
+    );
+    const computedTotal = componentTotals.reduce((sum, v) => sum + v, 0);
+    const grandTotal =
+      input.total !== undefined ? toMinor(input.total) : computedTotal;
+
+    if (grandTotal !== computedTotal) {
+      logger.info("Reconciling split to receipt total", {
+        computedTotal: fromMinor(computedTotal),
+        receiptTotal: fromMinor(grandTotal),
+      });
+    }
+
+    const totals = this.applyOverrides(
+      input.overrides ?? [],
+      componentTotals,
+      grandTotal,
+      indexOf
+    );
+    const overridden = new Set(
+      (input.overrides ?? []).map((o) => indexOf(o.participant))
+    );
+
+    const shares: ParticipantShare[] = participants.map((p, i) => ({
+      name: p.name,
+      items: fromMinor(items[i]),
+      discount: fromMinor(items[i] - discounted[i]),
+      delivery: fromMinor(delivery[i]),
+      service: fromMinor(service[i]),
+      vat: fromMinor(vat[i]),
+      adjustment: fromMinor(totals[i] - componentTotals[i]),
+      total: fromMinor(totals[i]),
+      percentage:
+        grandTotal === 0
+          ? 0
+          : Math.round((totals[i] / grandTotal) * 10000) / 100,
+      overridden: overridden.has(i),
+    }));
+
+    return {
+      shares,
+      subtotal: fromMinor(subtotal),
+      discount: fromMinor(subtotal - discountedSubtotal),
+      delivery: fromMinor(deliveryTotal),
+      service: fromMinor(serviceTotal),
+      vat: fromMinor(vatTotal),
+      adjustment: fromMinor(grandTotal - computedTotal),
+      total: fromMinor(grandTotal),
+      currency: input.currency ?? "EGP",
+    };
+  }
+
+  /**
+   * Renders a split result as Slack mrkdwn
+   * @param result - Split result from split()
+   * @returns Formatted bill split text
+   */
+  formatSplit(result: SplitResult): string {
+    const money = (amount: number): string =>
+      `${amount.toFixed(2)} ${result.currency}`;
+    const lines: string[] = ["*💰 Bill Split:*"];
+
+    for (const share of result.shares) {
+      lines.push(
+        `• *${share.name}:* ${money(share.total)}${share.overridden ? " (manual override)" : ""}`
+      );
+      lines.push(`  • Items: ${money(share.items)}`);
+      if (share.discount !== 0) {
+        lines.push(`  • Discount: -${money(share.discount)}`);
+      }
+      lines.push(`  • Delivery: ${money(share.delivery)} (split equally)`);
+      lines.push(`  • Service: ${money(share.service)} (proportional)`);
+      lines.push(`  • VAT: ${money(share.vat)} (proportional)`);
+      if (share.adjustment !== 0) {
+        lines.push(`  • Adjustment: ${money(share.adjustment)}`);
+      }
+    }
+
+    lines.push("", "*📊 Bill Summary:*");
+    lines.push(`• Total Bill: ${money(result.total)}`);
+    lines.push(`• Number of people: ${result.shares.length}`);
+    lines.push("• Breakdown:");
+    lines.push(`  • Subtotal (all items): ${money(result.subtotal)}`);
+    if (result.discount !== 0) {
+      lines.push(`  • Discount: -${money(result.discount)}`);
+    }
+    lines.push(`  • Delivery: ${money(result.delivery)}`);
+    lines.push(`  • Service: ${money(result.service)}`);
+    lines.push(`  • VAT: ${money(result.vat)}`);
+    if (result.adjustment !== 0) {
+      lines.push(`  • Rounding: ${money(result.adjustment)}`);
+    }
+
+    lines.push("", "*📈 Contribution Percentage:*");
+    for (const share of result.shares) {
+      lines.push(`• *${share.name}:* ${share.percentage}% of total bill`);
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Resolves a discount to minor units against a base amount
+   */
+  private discountAmount(discount: SplitDiscount, base: number): number {
+    if (discount.amount !== undefined) return toMinor(discount.amount);
+    if (discount.percent !== undefined) {
+      return Math.round((base * discount.percent) / 100);
+    }
+    return 0;
+  }
+
+  /**
+   * Fixes overridden totals and redistributes the remainder of the grand
+   * total across everyone else, weighted by their computed totals.
+   */
+  private applyOverrides(
+    overrides: SplitOverride[],
+    componentTotals: number[],
+    grandTotal: number,
+    indexOf: (name: string) => number
+  ): number[] {
+    const totals = [...componentTotals];
+    const fixed = new Map<number, number>();
+    for (const override of overrides) {
+      fixed.set(indexOf(override.participant), toMinor(override.total));
+    }
+
+    const free = totals.map((_, i) => i).filter((i) => !fixed.has(i));
+    if (free.length === 0) {
+      const fixedSum = [...fixed.values()].reduce((sum, v) => sum + v, 0);
+      if (fixedSum !== grandTotal) {
+        throw new Error(
+          "Manual overrides cover everyone but do not add up to the bill total"
+        );
+      }
+      fixed.forEach((value, i) => (totals[i] = value));
+      return totals;
+    }
+
+    fixed.forEach((value, i) => (totals[i] = value));
+    const remaining =
+      grandTotal - [...fixed.values()].reduce((sum, v) => sum + v, 0);
+    const parts = allocate(
+      remaining,
+      free.map((i) => componentTotals[i])
+    );
+    free.forEach((i, k) => (totals[i] = parts[k]));
+
+    return totals;
+  }
+}
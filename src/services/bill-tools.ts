@@ -0,0 +1,209 @@
+import { Type } from "@google/genai";
+import { allocate } from "./bill-split.service";
+import { ToolDefinition } from "./llm-provider";
+import { MenuCatalogService } from "./menu-catalog.service";
+
+/**
+ * Tools offered to the model while it writes a reply, so arithmetic and menu
+ * prices in estimates come from code and real menus instead of guesses
+ */
+
+/** Longest expression the calculator accepts */
+const MAX_EXPRESSION_LENGTH = 500;
+
+/**
+ * Evaluates an arithmetic expression with + - * / parentheses and
+ * percentages ("250 * 14%"). Thousands separators are ignored.
+ * @param expression - Expression written by the model
+ * @returns Result, rounded to remove floating point noise
+ * @throws {Error} If the expression is invalid or divides by zero
+ */
+export function evaluateExpression(expression: string): number {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error("Expression is too long");
+  }
+  const tokens =
+    expression.replace(/,/g, "").match(/\d+(?:\.\d+)?|\.\d+|[-+*/%()]|\S/g) ??
+    [];
+  let position = 0;
+
+  const peek = (): string | undefined => tokens[position];
+  const next = (): string | undefined => tokens[position++];
+
+  function parseExpression(): number {
+    let value = parseTerm();
+    while (peek() === "+" || peek() === "-") {
+      value = next() === "+" ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  }
+
+  function parseTerm(): number {
+    let value = parseFactor();
+    while (peek() === "*" || peek() === "/") {
+      if (next() === "*") {
+        value *= parseFactor();
+      } else {
+        const divisor = parseFactor();
+        if (divisor === 0) throw new Error("Division by zero");
+        value /= divisor;
+      }
+    }
+    return value;
+  }
+
+  function parseFactor(): number {
+    if (peek() === "-") {
+      next();
+      return -parseFactor();
+    }
+    if (peek() === "+") {
+      next();
+      return parseFactor();
+    }
+
+    let value: number;
+    const token = next();
+    if (token === "(") {
+      value = parseExpression();
+      if (next() !== ")") throw new Error("Missing closing parenthesis");
+    } else if (token !== undefined && /^[\d.]/.test(token)) {
+      value = Number(token);
+    } else {
+      throw new Error(`Unexpected ${token ?? "end of expression"}`);
+    }
+
+    if (peek() === "%") {
+      next();
+      value /= 100;
+    }
+    return value;
+  }
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected ${tokens[position]}`);
+  }
+  return Math.round(result * 1e10) / 1e10;
+}
+
+function requireString(args: Record<string, unknown>, name: string): string {
+  const value = args[name];
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error(`${name} is required`);
+  }
+  return value;
+}
+
+/**
+ * Creates the tools offered to the model when replying
+ * @param menuCatalog - Locally configured restaurant menus
+ * @returns Tool definitions for LlmService
+ */
+export function createBillTools(
+  menuCatalog: MenuCatalogService
+): ToolDefinition[] {
+  return [
+    {
+      name: "calculate",
+      description:
+        "Evaluates an arithmetic expression exactly. Use it for EVERY sum, product, percentage or total you show, e.g. '2 * 85 + 30' or '(450 + 35) * 14%'.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          expression: {
+            type: Type.STRING,
+            description: "Expression using numbers, + - * / % and parentheses",
+          },
+        },
+        required: ["expression"],
+      },
+      execute: (args) => ({
+        result: evaluateExpression(requireString(args, "expression")),
+      }),
+    },
+    {
+      name: "split_proportional",
+      description:
+        "Splits a charge (service, VAT, a discount) between people in proportion to weights such as their item subtotals, or equally when all weights are equal. Shares always add up exactly to the amount.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          amount: { type: Type.NUMBER, description: "Amount to split" },
+          weights: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                weight: { type: Type.NUMBER },
+              },
+              required: ["name", "weight"],
+            },
+          },
+        },
+        required: ["amount", "weights"],
+      },
+      execute: (args): unknown => {
+        const amount = Number(args.amount);
+        if (!Number.isFinite(amount)) throw new Error("amount is required");
+        const weights = (Array.isArray(args.weights) ? args.weights : []).map(
+          (entry: { name?: unknown; weight?: unknown }) => ({
+            name: String(entry?.name ?? ""),
+            weight: Number(entry?.weight) || 0,
+          })
+        );
+        if (weights.length === 0) throw new Error("weights are required");
+
+        // Work in minor units so the shares add up to the amount exactly
+        const shares = allocate(
+          Math.round(amount * 100),
+          weights.map((entry) => Math.round(entry.weight * 100))
+        );
+        return {
+          shares: weights.map((entry, i) => ({
+            name: entry.name,
+            share: shares[i] / 100,
+          })),
+        };
+      },
+    },
+    {
+      name: "lookup_menu_price",
+      description:
+        "Looks up real prices from the team's restaurant menu catalog. Call it before estimating any price. Omit item to list a restaurant's whole menu; omit both to list the restaurants in the catalog. Cite the restaurant and source file when you use a price.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          restaurant: {
+            type: Type.STRING,
+            description: "Restaurant name as written in the thread",
+          },
+          item: {
+            type: Type.STRING,
+            description: "Menu item as written in the thread",
+          },
+        },
+      },
+      execute: async (args): Promise<unknown> => {
+        const restaurant =
+          typeof args.restaurant === "string" ? args.restaurant : undefined;
+        const item = typeof args.item === "string" ? args.item : undefined;
+
+        if (item) {
+          const matches = await menuCatalog.findItems(item, restaurant);
+          return matches.length > 0
+            ? { found: true, matches }
+            : { found: false, note: "Not in the catalog; estimate instead" };
+        }
+        if (restaurant) {
+          const menu = await menuCatalog.findRestaurant(restaurant);
+          return menu
+            ? { found: true, menu }
+            : { found: false, note: "Restaurant not in the catalog" };
+        }
+        return { restaurants: await menuCatalog.listRestaurants() };
+      },
+    },
+  ];
+}
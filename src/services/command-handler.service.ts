@@ -0,0 +1,478 @@
+import { SlashCommand } from "@slack/bolt";
+import logger from "../logger";
+import { BillSplitService } from "./bill-split.service";
+import { CutoffService } from "./cutoff.service";
+import { deadlineSignal, TIMED_OUT_MESSAGE } from "./deadline";
+import { EventHandlerService } from "./event-handler.service";
+import { buildOrderSummaryBlocks, buildSplitBlocks } from "./order-blocks";
+import { OrderSession, OrderSessionService } from "./order-session.service";
+import { PaymentService } from "./payment.service";
+import { formatRate, PromptRegistryService } from "./prompt-registry.service";
+import { SlackService } from "./slack.service";
+import { preferredName } from "./user-directory.service";
+
+export const COMMAND_USAGE = [
+  "*Garçon commands* 🍽️",
+  "• `/garcon orders [thread link]` - Post the order summary with confirm buttons",
+  "• `/garcon split [thread link]` - Split the bill using the latest receipt",
+  "• `/garcon payer @someone [thread link]` - Record who paid the restaurant",
+  "• `/garcon balance [thread link]` - Show who still owes the payer",
+  "• `/garcon tab` - Your running balance across all order threads",
+  "• `/garcon cutoff 12:30 [thread link]` - Close the order round automatically at a time",
+  "• `/garcon close [thread link]` - Close the order round; no more changes (round starter or payer)",
+  "• `/garcon reset [thread link]` - Forget everything Garçon saved for the thread (round starter or payer)",
+  "• `/garcon persona [name|reset]` - Show or switch this channel's persona (channel admins)",
+  "Without a thread link, the most recent order thread in this channel is used.",
+].join("\n");
+
+/**
+ * Extracts the channel and thread timestamp from a Slack message link
+ * @param link - Permalink such as https://x.slack.com/archives/C123/p1700000000123456
+ * @returns Thread location, or null if the text is not a message link
+ */
+export function parseThreadLink(
+  link: string
+): { channel: string; threadTs: string } | null {
+  const match = link.match(/archives\/([A-Z0-9]+)\/p(\d{10})(\d{6})/);
+  if (!match) return null;
+
+  const threadTs = link.match(/thread_ts=(\d+\.\d+)/)?.[1];
+  return {
+    channel: match[1],
+    threadTs: threadTs ?? `${match[2]}.${match[3]}`,
+  };
+}
+
+/**
+ * Extracts a user ID from an escaped Slack mention such as <@U123|ahmed>
+ * @param text - Command argument
+ * @returns User ID, or null if the text is not a mention
+ */
+export function parseUserMention(text: string): string | null {
+  return text.match(/^<@([UW][A-Z0-9]+)(?:\|[^>]*)?>$/)?.[1] ?? null;
+}
+
+/**
+ * Handles /garcon slash commands. Can be used by both Socket Mode and Lambda
+ */
+export class CommandHandlerService {
+  constructor(
+    private slackService: SlackService,
+    private orderSessionService: OrderSessionService,
+    private eventHandlerService: EventHandlerService,
+    private billSplitService: BillSplitService,
+    private paymentService: PaymentService,
+    private cutoffService: CutoffService,
+    private promptRegistryService: PromptRegistryService
+  ) {}
+
+  /**
+   * Handles a /garcon command. Errors and usage help are sent ephemerally
+   * to the user who ran the command.
+   * @param command - Slack slash command payload
+   * @param deadline - Epoch ms by which a model-backed command (split) must
+   * finish; past it the user is told it took too long
+   */
+  async handleCommand(command: SlashCommand, deadline?: number): Promise<void> {
+    const [subcommand = "", ...args] = command.text.trim().split(/\s+/);
+    const signal = deadline ? deadlineSignal(deadline) : undefined;
+    logger.info("Slash command received", {
+      user: command.user_id,
+      channel: command.channel_id,
+      subcommand,
+    });
+
+    try {
+      switch (subcommand.toLowerCase()) {
+        case "orders":
+          await this.showOrders(command, args);
+          break;
+        case "split":
+          await this.split(command, args, signal);
+          break;
+        case "payer":
+          await this.setPayer(command, args);
+          break;
+        case "balance":
+          await this.showBalance(command, args);
+          break;
+        case "tab":
+          await this.showTab(command);
+          break;
+        case "cutoff":
+          await this.setCutoff(command, args);
+          break;
+        case "close":
+          await this.close(command, args);
+          break;
+        case "reset":
+          await this.reset(command, args);
+          break;
+        case "persona":
+          await this.persona(command, args);
+          break;
+        default:
+          await this.reply(command, COMMAND_USAGE);
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        logger.warn("Slash command ran out of time", { subcommand });
+        await this.reply(command, TIMED_OUT_MESSAGE);
+        return;
+      }
+      logger.error("Error handling slash command", {
+        subcommand,
+        channel: command.channel_id,
+        error,
+      });
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      await this.reply(
+        command,
+        `Sorry, something went wrong! يا عم الحاج في مشكلة حصلت 😅\n\nError: ${errorMessage}`
+      );
+    }
+  }
+
+  private async showOrders(
+    command: SlashCommand,
+    args: string[]
+  ): Promise<void> {
+    const session = await this.resolveSession(command, args);
+    if (!session) return;
+
+    // Posted in the thread, not ephemerally, so everyone can use the buttons
+    await this.slackService.postMessage(
+      session.channel,
+      this.orderSessionService.formatSummary(session),
+      session.threadTs,
+      buildOrderSummaryBlocks(session)
+    );
+  }
+
+  private async split(
+    command: SlashCommand,
+    args: string[],
+    signal?: AbortSignal
+  ): Promise<void> {
+    const session = await this.resolveSession(command, args);
+    if (!session) return;
+
+    const result = await this.eventHandlerService.splitThread(
+      session.channel,
+      session.threadTs,
+      signal
+    );
+    if (!result) {
+      await this.reply(
+        command,
+        "مفيش حاجة أقسمها لسه يا معلم - I couldn't find orders with prices or a receipt in that thread."
+      );
+      return;
+    }
+
+    // splitThread saved the split; reload so payment state is current
+    const updated =
+      (await this.orderSessionService.find(
+        session.channel,
+        session.threadTs
+      )) ?? session;
+    const ts = await this.slackService.postMessage(
+      session.channel,
+      this.billSplitService.formatSplit(result),
+      session.threadTs,
+      buildSplitBlocks(updated, result)
+    );
+
+    // Remember the message so a ✅ reaction on it counts as a payment
+    if (ts) {
+      updated.splitMessageTs = [...(updated.splitMessageTs ?? []), ts];
+      await this.orderSessionService.save(updated);
+    }
+  }
+
+  private async setPayer(command: SlashCommand, args: string[]): Promise<void> {
+    const userId = args.map(parseUserMention).find((id) => id !== null);
+    if (!userId) {
+      await this.reply(
+        command,
+        `Tell me who paid by mentioning them, e.g. \`/garcon payer @ahmed\`.\n\n${COMMAND_USAGE}`
+      );
+      return;
+    }
+
+    const session = await this.resolveSession(command, args);
+    if (!session) return;
+
+    // Use the name Garçon already knows them by in this thread
+    const participant = session.participants.find((p) => p.userId === userId);
+    const profile = participant
+      ? null
+      : await this.slackService.getUserInfo(userId);
+    session.payer = {
+      name: participant?.name ?? (profile ? preferredName(profile) : userId),
+      userId,
+    };
+    if (participant) {
+      this.paymentService.markUnpaid(session, participant);
+    }
+    await this.orderSessionService.save(session);
+
+    await this.slackService.postMessage(
+      session.channel,
+      `🧾 <@${userId}> paid the bill - everyone else owes them their share. Tap 💸 or react with ✅ on the split once you've paid.`,
+      session.threadTs
+    );
+  }
+
+  private async showBalance(
+    command: SlashCommand,
+    args: string[]
+  ): Promise<void> {
+    const session = await this.resolveSession(command, args);
+    if (!session) return;
+
+    await this.reply(command, this.paymentService.formatThreadBalance(session));
+  }
+
+  private async showTab(command: SlashCommand): Promise<void> {
+    const balance = await this.paymentService.userBalance(command.user_id);
+    await this.reply(command, this.paymentService.formatUserBalance(balance));
+  }
+
+  private async setCutoff(
+    command: SlashCommand,
+    args: string[]
+  ): Promise<void> {
+    // "1:30 pm" arrives as two arguments
+    const time = args.filter((arg) => !arg.includes("/archives/")).join(" ");
+    const cutoff = await this.cutoffService.resolve(command.channel_id, time);
+    if (!cutoff) {
+      await this.reply(
+        command,
+        `Tell me when to close orders, e.g. \`/garcon cutoff 12:30\`.\n\n${COMMAND_USAGE}`
+      );
+      return;
+    }
+
+    const session = await this.resolveSession(command, args);
+    if (!session) return;
+
+    if (session.status !== "open") {
+      await this.reply(
+        command,
+        `This order round is already ${session.status}.`
+      );
+      return;
+    }
+
+    this.cutoffService.schedule(session, cutoff);
+    await this.orderSessionService.save(session);
+    await this.slackService.postMessage(
+      session.channel,
+      await this.cutoffService.formatScheduled(session),
+      session.threadTs
+    );
+  }
+
+  private async close(command: SlashCommand, args: string[]): Promise<void> {
+    const session = await this.resolveSession(command, args);
+    if (!session) return;
+
+    if (!this.runsRound(session, command.user_id)) {
+      await this.reply(
+        command,
+        "Only whoever started this order or paid the bill can close it."
+      );
+      return;
+    }
+
+    if (session.status !== "open") {
+      await this.reply(
+        command,
+        `This order round is already ${session.status}.`
+      );
+      return;
+    }
+
+    session.status = "closed";
+    await this.orderSessionService.save(session);
+
+    const notice = `🔒 *الطلبات اتقفلت!* Orders are closed by <@${command.user_id}> - no more changes.`;
+    await this.slackService.postMessage(
+      session.channel,
+      `${notice}\n\n${this.orderSessionService.formatSummary(session)}`,
+      session.threadTs,
+      [
+        { type: "section", text: { type: "mrkdwn", text: notice } },
+        ...buildOrderSummaryBlocks(session),
+      ]
+    );
+  }
+
+  private async reset(command: SlashCommand, args: string[]): Promise<void> {
+    const session = await this.resolveSession(command, args);
+    if (!session) return;
+
+    if (!this.runsRound(session, command.user_id)) {
+      await this.reply(
+        command,
+        "Only whoever started this order or paid the bill can reset it."
+      );
+      return;
+    }
+
+    await this.orderSessionService.delete(session.channel, session.threadTs);
+    await this.reply(
+      command,
+      "🧹 Done - I forgot everything I saved for that thread. Mention me there to start fresh."
+    );
+  }
+
+  private async persona(command: SlashCommand, args: string[]): Promise<void> {
+    const [name] = args;
+    if (!name) {
+      const profile = await this.promptRegistryService.resolve(
+        command.channel_id,
+        command.team_id
+      );
+      const personas = await this.promptRegistryService.listPersonas();
+      await this.reply(
+        command,
+        [
+          `*🎭 Persona in this channel:* \`${profile.persona}\``,
+          `• Language: ${profile.language}`,
+          `• Currency: ${profile.currency} (${profile.city})`,
+          `• VAT: ${formatRate(profile.vatRate)}% • Service: ${formatRate(profile.serviceRate)}%`,
+          ...(profile.timeZone ? [`• Time zone: ${profile.timeZone}`] : []),
+          `Available personas: ${personas.map((p) => `\`${p}\``).join(", ")}`,
+        ].join("\n")
+      );
+      return;
+    }
+
+    if (!(await this.canConfigureChannel(command))) {
+      await this.reply(
+        command,
+        "Only workspace admins and the channel's creator can switch personas here."
+      );
+      return;
+    }
+
+    const persona = name.toLowerCase() === "reset" ? undefined : name;
+    // Throws with the list of personas if the name is unknown
+    await this.promptRegistryService.setPersona(
+      command.channel_id,
+      persona,
+      command.user_id
+    );
+    const active = (
+      await this.promptRegistryService.resolve(
+        command.channel_id,
+        command.team_id
+      )
+    ).persona;
+    await this.slackService.postMessage(
+      command.channel_id,
+      `🎭 <@${command.user_id}> switched Garçon's persona in this channel to \`${active}\`.`
+    );
+  }
+
+  /**
+   * Workspace admins, the channel's creator and admins listed in the prompt
+   * config may change channel settings
+   */
+  /**
+   * Whether the user started the order round or paid for it, the same people
+   * who look after orders placed without a Slack user. Rounds saved before
+   * openers were recorded, with no payer yet, have nobody to ask and are
+   * left to anyone.
+   */
+  private runsRound(session: OrderSession, userId: string): boolean {
+    if (!session.openedBy && !session.payer?.userId) return true;
+    return userId === session.openedBy || userId === session.payer?.userId;
+  }
+
+  private async canConfigureChannel(command: SlashCommand): Promise<boolean> {
+    if (await this.promptRegistryService.isConfiguredAdmin(command.user_id)) {
+      return true;
+    }
+    const profile = await this.slackService.getUserInfo(command.user_id);
+    if (profile?.isAdmin) return true;
+
+    try {
+      const creator = await this.slackService.getChannelCreator(
+        command.channel_id
+      );
+      return creator === command.user_id;
+    } catch (error) {
+      // DMs and channels the bot isn't in can't be looked up
+      logger.warn("Could not look up channel creator", {
+        channel: command.channel_id,
+        error,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Finds the session a command targets: the linked thread if a link was
+   * given, otherwise the channel's most recent session. Links must point
+   * into the channel the command was run in, so nobody can read or change
+   * orders in a channel they aren't in, and only to threads Garçon already
+   * tracks.
+   */
+  private async resolveSession(
+    command: SlashCommand,
+    args: string[]
+  ): Promise<OrderSession | null> {
+    const link = args.find((arg) => arg.includes("/archives/"));
+    if (link) {
+      const location = parseThreadLink(link);
+      if (!location) {
+        await this.reply(
+          command,
+          `That doesn't look like a thread link.\n\n${COMMAND_USAGE}`
+        );
+        return null;
+      }
+      if (location.channel !== command.channel_id) {
+        await this.reply(
+          command,
+          "That thread is in another channel - run the command there instead."
+        );
+        return null;
+      }
+      const linked = await this.orderSessionService.find(
+        location.channel,
+        location.threadTs
+      );
+      if (!linked) {
+        await this.reply(
+          command,
+          "I haven't taken orders in that thread. Mention me there first."
+        );
+      }
+      return linked;
+    }
+
+    const session = await this.orderSessionService.findLatest(
+      command.channel_id
+    );
+    if (!session) {
+      await this.reply(
+        command,
+        "I don't know of any order thread in this channel yet. Mention me in one first, or pass a thread link."
+      );
+    }
+    return session;
+  }
+
+  private async reply(command: SlashCommand, text: string): Promise<void> {
+    await this.slackService.postEphemeral(
+      command.channel_id,
+      command.user_id,
+      text
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ContextBudgetService } from "./context-budget.service";
+import { Message } from "./llm-provider";
+
+/** A message of about `tokens` estimated tokens */
+function message(index: number, tokens = 10): Message {
+  return {
+    role: "user",
+    userName: `User ${index % 3}`,
+    content: `${index}:`.padEnd(tokens * 3, "x"),
+    ts: `1700000000.${String(index).padStart(6, "0")}`,
+  };
+}
+
+function withImage(msg: Message, bytes = 3000): Message {
+  return {
+    ...msg,
+    images: [{ mimeType: "image/jpeg", data: "A".repeat((bytes * 4) / 3) }],
+  };
+}
+
+function conversation(count: number, tokens = 10): Message[] {
+  return Array.from({ length: count }, (_, i) => message(i, tokens));
+}
+
+describe("ContextBudgetService.fit", () => {
+  it("returns a conversation within budget untouched", () => {
+    const service = new ContextBudgetService({ maxTokens: 1000 });
+    const messages = conversation(5);
+
+    assert.equal(service.fit("test", messages), messages);
+  });
+
+  it("drops older attachments before any message", () => {
+    const service = new ContextBudgetService({
+      maxTokens: 100_000,
+      maxImageBytes: 5000,
+      keepLatest: 2,
+    });
+    const messages = [
+      message(0),
+      withImage(message(1)),
+      withImage(message(2)),
+      message(3),
+      message(4),
+    ];
+
+    const fitted = service.fit("test", messages);
+
+    assert.equal(fitted.length, 5);
+    assert.equal(fitted[1].images, undefined);
+    assert.match(fitted[1].content, /attachments omitted/);
+    // The latest attachments are kept: they're usually the receipt
+    assert.equal(fitted[2].images?.length, 1);
+    // The input is not modified
+    assert.equal(messages[1].images?.length, 1);
+  });
+
+  it("collapses older chatter but keeps the parent and latest messages", () => {
+    const service = new ContextBudgetService({ maxTokens: 100, keepLatest: 3 });
+    const messages = conversation(12);
+
+    const fitted = service.fit("test", messages);
+
+    assert.deepEqual(fitted[0], messages[0]);
+    assert.match(fitted[1].content, /^\[\d+ older messages from .+ omitted/);
+    assert.equal(fitted[1].userName, "System");
+    assert.deepEqual(
+      fitted.slice(-3).map((msg) => msg.ts),
+      messages.slice(-3).map((msg) => msg.ts)
+    );
+    const tokens = fitted.reduce(
+      (sum, msg) => sum + service.estimateTokens(msg),
+      0
+    );
+    assert.ok(tokens <= 100, `${tokens} tokens`);
+  });
+
+  it("never drops protected messages, even over budget", () => {
+    const service = new ContextBudgetService({ maxTokens: 10, keepLatest: 2 });
+    const messages = conversation(3, 50);
+
+    const fitted = service.fit("test", messages);
+
+    assert.deepEqual(
+      fitted.map((msg) => msg.ts),
+      [messages[0].ts, messages[1].ts, messages[2].ts]
+    );
+  });
+});
+
+describe("ContextBudgetService.countFitting", () => {
+  it("counts the oldest messages that fit together", () => {
+    const service = new ContextBudgetService({ maxTokens: 35 });
+
+    assert.equal(service.countFitting(conversation(10)), 3);
+    assert.equal(service.countFitting(conversation(2)), 2);
+  });
+
+  it("always lets at least one message through", () => {
+    const service = new ContextBudgetService({ maxTokens: 5 });
+
+    assert.equal(service.countFitting(conversation(3, 50)), 1);
+    assert.equal(service.countFitting([]), 0);
+  });
+});
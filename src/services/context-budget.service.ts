@@ -0,0 +1,249 @@
+import logger from "../logger";
+import { Base64Document, Message } from "./llm-provider";
+
+export interface ContextBudgetOptions {
+  /** Estimated token budget for the whole conversation */
+  maxTokens: number;
+  /** Budget for inline image and document data, in decoded bytes */
+  maxImageBytes: number;
+  /** Number of newest messages that are never trimmed */
+  keepLatest: number;
+}
+
+const DEFAULT_OPTIONS: ContextBudgetOptions = {
+  maxTokens: 200_000,
+  // Gemini rejects inline requests over 20MB; leave room for text and base64
+  maxImageBytes: 12 * 1024 * 1024,
+  keepLatest: 20,
+};
+
+/** Rough per-image token cost (Gemini bills images in 258-token tiles) */
+const TOKENS_PER_IMAGE = 1_032;
+
+/** Conservative characters-per-token ratio; Arabic tokenizes denser than English */
+const CHARS_PER_TOKEN = 3;
+
+/** Gemini bills each PDF page like an image; assume ~50KB per page */
+const PDF_BYTES_PER_PAGE = 50_000;
+
+export interface TrimReport {
+  droppedImages: number;
+  droppedDocuments: number;
+  droppedMessages: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  inlineBytesBefore: number;
+  inlineBytesAfter: number;
+}
+
+/**
+ * Estimates tokens for a piece of text
+ * @param text - Text to estimate
+ * @returns Approximate token count
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimates the decoded size of a base64 string
+ */
+function base64Bytes(data: string): number {
+  return Math.floor((data.length * 3) / 4);
+}
+
+function hasAttachments(message: Message): boolean {
+  return Boolean(message.images?.length || message.documents?.length);
+}
+
+/**
+ * Estimates tokens for an attached document
+ */
+function estimateDocumentTokens(doc: Base64Document): number {
+  const bytes = base64Bytes(doc.data);
+  if (doc.mimeType === "text/plain") return Math.ceil(bytes / CHARS_PER_TOKEN);
+  return Math.max(1, Math.ceil(bytes / PDF_BYTES_PER_PAGE)) * TOKENS_PER_IMAGE;
+}
+
+/**
+ * Keeps conversations within request size and cost limits. The parent
+ * message, the newest messages and the latest receipt attachments are
+ * always kept; older images and files are dropped first, then older chatter
+ * is collapsed into a one-line summary.
+ */
+export class ContextBudgetService {
+  private options: ContextBudgetOptions;
+
+  constructor(options: Partial<ContextBudgetOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Estimates the token cost of a message, including its attachments
+   * @param message - Conversation message
+   * @returns Approximate token count
+   */
+  estimateTokens(message: Message): number {
+    return (
+      estimateTextTokens(message.content) +
+      (message.images?.length ?? 0) * TOKENS_PER_IMAGE +
+      (message.documents ?? []).reduce(
+        (sum, doc) => sum + estimateDocumentTokens(doc),
+        0
+      )
+    );
+  }
+
+  /**
+   * Counts how many of the oldest messages fit the budget untrimmed, so a
+   * long run of messages can be sent in order over several requests
+   * @param messages - Messages in chronological order
+   * @returns Number of leading messages that fit; at least one, so an
+   * oversized message is still sent (trimmed by fit())
+   */
+  countFitting(messages: Message[]): number {
+    let count = 0;
+    while (
+      count < messages.length &&
+      this.withinBudget(this.measure(messages.slice(0, count + 1)))
+    ) {
+      count++;
+    }
+    return Math.max(count, Math.min(messages.length, 1));
+  }
+
+  /**
+   * Trims a conversation to fit the budget
+   * @param requestId - Request identifier for logging
+   * @param messages - Conversation in chronological order
+   * @returns Trimmed conversation; the input array is not modified
+   */
+  fit(requestId: string, messages: Message[]): Message[] {
+    const result = messages.map((msg) => ({ ...msg }));
+    const before = this.measure(result);
+    if (this.withinBudget(before)) return messages;
+
+    const protectedIndexes = this.protectedIndexes(result);
+    let droppedImages = 0;
+    let droppedDocuments = 0;
+
+    // 1. Drop attachments from the oldest unprotected messages
+    for (let i = 0; i < result.length; i++) {
+      if (this.withinBudget(this.measure(result))) break;
+      if (protectedIndexes.has(i) || !hasAttachments(result[i])) continue;
+
+      droppedImages += result[i].images?.length ?? 0;
+      droppedDocuments += result[i].documents?.length ?? 0;
+      result[i].content += " [attachments omitted to save space]";
+      delete result[i].images;
+      delete result[i].documents;
+    }
+
+    // 2. Collapse the oldest unprotected messages into a summary line, which
+    // has to fit too
+    const dropped: Message[] = [];
+    const fits = (): boolean =>
+      this.withinBudget(
+        this.measure(
+          dropped.length > 0 ? [...result, this.summarize(dropped)] : result
+        )
+      );
+    while (!fits()) {
+      const index = result.findIndex(
+        (_, i) => i > 0 && !protectedIndexes.has(i)
+      );
+      if (index === -1) break;
+      dropped.push(...result.splice(index, 1));
+      this.shiftProtected(protectedIndexes, index);
+    }
+    if (dropped.length > 0) {
+      result.splice(1, 0, this.summarize(dropped));
+    }
+
+    const after = this.measure(result);
+    const report: TrimReport = {
+      droppedImages,
+      droppedDocuments,
+      droppedMessages: dropped.length,
+      tokensBefore: before.tokens,
+      tokensAfter: after.tokens,
+      inlineBytesBefore: before.inlineBytes,
+      inlineBytesAfter: after.inlineBytes,
+    };
+    logger.info("Conversation trimmed to fit context budget", {
+      requestId,
+      ...report,
+      stillOverBudget: !this.withinBudget(after),
+    });
+
+    return result;
+  }
+
+  /**
+   * Indexes that must survive trimming: the parent message, the newest
+   * messages and the newest message carrying attachments (usually the
+   * receipt)
+   */
+  private protectedIndexes(messages: Message[]): Set<number> {
+    const indexes = new Set<number>([0]);
+    const firstLatest = Math.max(messages.length - this.options.keepLatest, 0);
+    for (let i = firstLatest; i < messages.length; i++) indexes.add(i);
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (hasAttachments(messages[i])) {
+        indexes.add(i);
+        break;
+      }
+    }
+    return indexes;
+  }
+
+  /**
+   * Re-indexes protected positions after removing an element
+   */
+  private shiftProtected(indexes: Set<number>, removed: number): void {
+    const shifted = [...indexes].map((i) => (i > removed ? i - 1 : i));
+    indexes.clear();
+    shifted.forEach((i) => indexes.add(i));
+  }
+
+  /**
+   * Builds a single message standing in for dropped chatter
+   */
+  private summarize(dropped: Message[]): Message {
+    const authors = [
+      ...new Set(
+        dropped.map((msg) =>
+          msg.role === "model" ? "Garçon" : msg.userName || "User"
+        )
+      ),
+    ];
+    return {
+      role: "user",
+      userName: "System",
+      content: `[${dropped.length} older messages from ${authors.join(", ")} omitted to save space; rely on the saved order state for their orders]`,
+    };
+  }
+
+  private measure(messages: Message[]): {
+    tokens: number;
+    inlineBytes: number;
+  } {
+    let tokens = 0;
+    let inlineBytes = 0;
+    for (const msg of messages) {
+      tokens += this.estimateTokens(msg);
+      for (const file of [...(msg.images ?? []), ...(msg.documents ?? [])]) {
+        inlineBytes += base64Bytes(file.data);
+      }
+    }
+    return { tokens, inlineBytes };
+  }
+
+  private withinBudget(size: { tokens: number; inlineBytes: number }): boolean {
+    return (
+      size.tokens <= this.options.maxTokens &&
+      size.inlineBytes <= this.options.maxImageBytes
+    );
+  }
+}
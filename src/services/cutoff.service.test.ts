@@ -0,0 +1,178 @@
+import assert from "node:assert/strict";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { MemoryStore } from "../storage";
+import {
+  CutoffService,
+  nextOccurrence,
+  parseTimeOfDay,
+  zoneOffsetMs,
+} from "./cutoff.service";
+import { FakeSlackService } from "./fake-slack.service";
+import { OrderSession, OrderSessionService } from "./order-session.service";
+import {
+  ChannelPersona,
+  PromptRegistryService,
+} from "./prompt-registry.service";
+
+const HOUR = 60 * 60 * 1000;
+
+function iso(at: Date | null): string | undefined {
+  return at?.toISOString();
+}
+
+describe("parseTimeOfDay", () => {
+  it("reads 24-hour and 12-hour times", () => {
+    assert.deepEqual(parseTimeOfDay("12:30"), { hours: 12, minutes: 30 });
+    assert.deepEqual(parseTimeOfDay(" 1pm "), { hours: 13, minutes: 0 });
+    assert.deepEqual(parseTimeOfDay("12am"), { hours: 0, minutes: 0 });
+    assert.deepEqual(parseTimeOfDay("12 PM"), { hours: 12, minutes: 0 });
+    assert.deepEqual(parseTimeOfDay("00:05"), { hours: 0, minutes: 5 });
+  });
+
+  it("rejects anything that isn't a time", () => {
+    assert.equal(parseTimeOfDay("24:00"), null);
+    assert.equal(parseTimeOfDay("12:60"), null);
+    assert.equal(parseTimeOfDay("13pm"), null);
+    assert.equal(parseTimeOfDay("0am"), null);
+    assert.equal(parseTimeOfDay("noon"), null);
+  });
+});
+
+describe("zoneOffsetMs", () => {
+  it("follows daylight saving time", () => {
+    const winter = new Date("2026-01-15T12:00:00Z");
+    const summer = new Date("2026-07-15T12:00:00Z");
+
+    assert.equal(zoneOffsetMs(winter, "Africa/Cairo"), 2 * HOUR);
+    assert.equal(zoneOffsetMs(summer, "Africa/Cairo"), 3 * HOUR);
+    assert.equal(zoneOffsetMs(winter, "America/New_York"), -5 * HOUR);
+    assert.equal(zoneOffsetMs(summer, "America/New_York"), -4 * HOUR);
+    assert.equal(zoneOffsetMs(summer, "UTC"), 0);
+  });
+
+  it("changes at the instant the clocks do", () => {
+    // New York springs forward at 07:00 UTC on 8 March 2026
+    const zone = "America/New_York";
+    assert.equal(
+      zoneOffsetMs(new Date("2026-03-08T06:59:59Z"), zone),
+      -5 * HOUR
+    );
+    assert.equal(
+      zoneOffsetMs(new Date("2026-03-08T07:00:00Z"), zone),
+      -4 * HOUR
+    );
+  });
+});
+
+describe("nextOccurrence", () => {
+  // 12:00 in Cairo
+  const noon = new Date("2026-01-15T10:00:00Z");
+
+  it("picks today's time while it's still ahead", () => {
+    assert.equal(
+      iso(nextOccurrence("12:30", "Africa/Cairo", noon)),
+      "2026-01-15T10:30:00.000Z"
+    );
+  });
+
+  it("moves a time already past to tomorrow", () => {
+    assert.equal(
+      iso(nextOccurrence("9am", "Africa/Cairo", noon)),
+      "2026-01-16T07:00:00.000Z"
+    );
+    assert.equal(
+      iso(nextOccurrence("12:00", "Africa/Cairo", noon)),
+      "2026-01-16T10:00:00.000Z"
+    );
+  });
+
+  it("rolls a time past midnight over to the next day", () => {
+    // 23:50 in Cairo, 21:50 UTC
+    const lateNight = new Date("2026-01-15T21:50:00Z");
+    assert.equal(
+      iso(nextOccurrence("00:10", "Africa/Cairo", lateNight)),
+      "2026-01-15T22:10:00.000Z"
+    );
+  });
+
+  it("uses the offset in force at the cutoff, not now", () => {
+    // Noon on Saturday in New York; clocks go forward overnight
+    const saturday = new Date("2026-03-07T17:00:00Z");
+    const zone = "America/New_York";
+
+    assert.equal(
+      iso(nextOccurrence("01:30", zone, saturday)),
+      "2026-03-08T06:30:00.000Z"
+    );
+    assert.equal(
+      iso(nextOccurrence("06:00", zone, saturday)),
+      "2026-03-08T10:00:00.000Z"
+    );
+    // 02:30 doesn't exist that night and lands just after the change
+    assert.equal(
+      iso(nextOccurrence("02:30", zone, saturday)),
+      "2026-03-08T07:30:00.000Z"
+    );
+  });
+
+  it("keeps the first 01:30 when clocks go back", () => {
+    const saturday = new Date("2026-10-31T16:00:00Z");
+    assert.equal(
+      iso(nextOccurrence("01:30", "America/New_York", saturday)),
+      "2026-11-01T05:30:00.000Z"
+    );
+  });
+
+  it("returns null for text that isn't a time", () => {
+    assert.equal(nextOccurrence("lunch", "Africa/Cairo", noon), null);
+  });
+});
+
+/** A CutoffService whose C0DUBAI channel runs on Dubai time */
+async function cutoffService(): Promise<CutoffService> {
+  const configFile = join(await mkdtemp(join(tmpdir(), "garcon-")), "c.json");
+  await writeFile(
+    configFile,
+    JSON.stringify({ channels: { C0DUBAI: { timeZone: "Asia/Dubai" } } })
+  );
+  return new CutoffService(
+    new FakeSlackService("U0GARCON", []),
+    new OrderSessionService(new MemoryStore<OrderSession>()),
+    new PromptRegistryService(new MemoryStore<ChannelPersona>(), {
+      configFile,
+    }),
+    { timeZone: "Africa/Cairo" }
+  );
+}
+
+describe("CutoffService", () => {
+  it("reads times in the channel's own time zone", async () => {
+    const service = await cutoffService();
+    const cairo = await service.resolve("C0CAIRO", "23:59");
+    const dubai = await service.resolve("C0DUBAI", "23:59");
+
+    // Dubai is UTC+4 all year, Cairo UTC+2 or +3
+    const hoursApart = (cairo!.getTime() - dubai!.getTime()) / HOUR;
+    assert.ok(hoursApart === 1 || hoursApart === 2, `${hoursApart} hours`);
+  });
+
+  it("keeps a sent reminder when the same cutoff is set again", async () => {
+    const service = await cutoffService();
+    const session = await new OrderSessionService(
+      new MemoryStore<OrderSession>()
+    ).getOrCreate("C0CAIRO", "1700000000.000100");
+    const at = new Date("2026-01-15T10:30:00Z");
+
+    service.schedule(session, at);
+    session.reminderSentAt = "2026-01-15T10:20:00.000Z";
+    service.schedule(session, new Date(at));
+    assert.equal(session.reminderSentAt, "2026-01-15T10:20:00.000Z");
+
+    service.schedule(session, new Date("2026-01-15T11:00:00Z"));
+    assert.equal(session.cutoffAt, "2026-01-15T11:00:00.000Z");
+    assert.equal(session.reminderSentAt, undefined);
+  });
+});
@@ -0,0 +1,319 @@
+import logger from "../logger";
+import { buildOrderSummaryBlocks } from "./order-blocks";
+import { OrderSession, OrderSessionService } from "./order-session.service";
+import { PromptRegistryService } from "./prompt-registry.service";
+import { SlackService } from "./slack.service";
+
+export interface CutoffOptions {
+  /**
+   * IANA time zone that times like "12:30" are read in, unless the
+   * channel's prompt profile sets one
+   */
+  timeZone: string;
+  /** How long before the cutoff unconfirmed participants are reminded */
+  reminderLeadMinutes: number;
+}
+
+const DEFAULT_OPTIONS: CutoffOptions = {
+  timeZone: "Africa/Cairo",
+  reminderLeadMinutes: 10,
+};
+
+/**
+ * Parses a time of day such as "12:30", "1pm" or "13:05 PM"
+ * @param text - Time as typed by a user or returned by the model
+ * @returns Hours (0-23) and minutes, or null if the text isn't a time
+ */
+export function parseTimeOfDay(
+  text: string
+): { hours: number; minutes: number } | null {
+  const match = text
+    .trim()
+    .toLowerCase()
+    .match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3];
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return { hours, minutes };
+}
+
+/**
+ * Milliseconds the time zone is ahead of UTC at the given instant
+ */
+export function zoneOffsetMs(at: Date, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(at)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return wallClock - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+/**
+ * Finds the instant a time zone's clock shows the given wall-clock time.
+ * The offset is looked up twice, since it can change between the wall-clock
+ * time read as UTC and the real instant; a time skipped when clocks go
+ * forward lands just after the change.
+ * @param wallClock - Wall-clock time, as milliseconds since the epoch in UTC
+ * @param timeZone - IANA time zone
+ */
+function zonedInstant(wallClock: number, timeZone: string): Date {
+  const guess = wallClock - zoneOffsetMs(new Date(wallClock), timeZone);
+  const corrected = wallClock - zoneOffsetMs(new Date(guess), timeZone);
+  const shows = corrected + zoneOffsetMs(new Date(corrected), timeZone);
+  return new Date(shows === wallClock ? corrected : guess);
+}
+
+/**
+ * Finds the next time the clock in a time zone shows the given time
+ * @param time - Time of day, see parseTimeOfDay()
+ * @param timeZone - IANA time zone
+ * @param now - Reference instant
+ * @returns Today's occurrence if still ahead, otherwise tomorrow's, or null
+ * if the time can't be parsed
+ */
+export function nextOccurrence(
+  time: string,
+  timeZone: string,
+  now: Date = new Date()
+): Date | null {
+  const parsed = parseTimeOfDay(time);
+  if (!parsed) return null;
+
+  const today = new Date(now.getTime() + zoneOffsetMs(now, timeZone));
+  for (let dayOffset = 0; dayOffset <= 1; dayOffset++) {
+    const wallClock = Date.UTC(
+      today.getUTCFullYear(),
+      today.getUTCMonth(),
+      today.getUTCDate() + dayOffset,
+      parsed.hours,
+      parsed.minutes
+    );
+    const candidate = zonedInstant(wallClock, timeZone);
+    if (candidate > now) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Renders an instant as a Slack date token, shown in each reader's own
+ * time zone
+ */
+function slackTime(at: Date, fallback: string): string {
+  return `<!date^${Math.floor(at.getTime() / 1000)}^{time}|${fallback}>`;
+}
+
+/**
+ * Closes order rounds at their scheduled cutoff and reminds participants
+ * who haven't confirmed shortly before. runDue() is driven by a timer in
+ * Socket Mode and by an EventBridge schedule on Lambda; enforce() also
+ * freezes overdue rounds whenever a thread is handled, so a late scheduler
+ * tick can't let orders slip in.
+ */
+export class CutoffService {
+  private options: CutoffOptions;
+
+  constructor(
+    private slackService: SlackService,
+    private orderSessionService: OrderSessionService,
+    private promptRegistryService: PromptRegistryService,
+    options: Partial<CutoffOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Resolves a time of day to the next cutoff instant
+   * @param channel - Channel whose time zone the time is read in
+   * @param time - Time such as "12:30" or "1pm"
+   * @returns Cutoff instant, or null if the time can't be parsed
+   */
+  async resolve(channel: string, time: string): Promise<Date | null> {
+    return nextOccurrence(time, await this.timeZoneFor(channel));
+  }
+
+  /**
+   * Sets or moves a session's cutoff. The caller saves the session.
+   * Setting the same cutoff again, e.g. when the thread is read again after
+   * an edit, keeps a reminder that was already sent.
+   * @param session - Session to update in place
+   * @param at - Cutoff instant
+   */
+  schedule(session: OrderSession, at: Date): void {
+    const cutoffAt = at.toISOString();
+    if (session.cutoffAt === cutoffAt) return;
+
+    session.cutoffAt = cutoffAt;
+    session.reminderSentAt = undefined;
+    logger.info("Order cutoff scheduled", {
+      channel: session.channel,
+      threadTs: session.threadTs,
+      cutoffAt: session.cutoffAt,
+    });
+  }
+
+  /**
+   * Describes a scheduled cutoff for a Slack message
+   * @param session - Session with a cutoff
+   * @returns Slack mrkdwn notice
+   */
+  async formatScheduled(session: OrderSession): Promise<string> {
+    if (!session.cutoffAt) return "";
+    const at = new Date(session.cutoffAt);
+    const local = this.localTime(at, await this.timeZoneFor(session.channel));
+    return `⏰ Orders close at ${slackTime(at, local)}. I'll remind anyone who hasn't confirmed ${this.options.reminderLeadMinutes} minutes before.`;
+  }
+
+  /**
+   * Sends due reminders and freezes rounds whose cutoff has passed
+   * @param now - Current time
+   * @returns How many reminders were sent and rounds closed
+   */
+  async runDue(
+    now: Date = new Date()
+  ): Promise<{ reminded: number; closed: number }> {
+    const leadMs = this.options.reminderLeadMinutes * 60 * 1000;
+    let reminded = 0;
+    let closed = 0;
+
+    for (const listed of await this.orderSessionService.list()) {
+      if (listed.status !== "open" || !listed.cutoffAt) continue;
+
+      try {
+        // The processor may have changed the thread since it was listed;
+        // saving the listed copy would drop those orders
+        const session = await this.orderSessionService.find(
+          listed.channel,
+          listed.threadTs
+        );
+        if (session?.status !== "open" || !session.cutoffAt) continue;
+        const cutoff = new Date(session.cutoffAt);
+
+        if (now >= cutoff) {
+          await this.freeze(session);
+          closed++;
+        } else if (
+          !session.reminderSentAt &&
+          now.getTime() >= cutoff.getTime() - leadMs
+        ) {
+          await this.remind(session, cutoff);
+          reminded++;
+        }
+      } catch (error) {
+        // One broken thread shouldn't hold up the others
+        logger.error("Scheduled order task failed", {
+          channel: listed.channel,
+          threadTs: listed.threadTs,
+          error,
+        });
+      }
+    }
+
+    if (reminded > 0 || closed > 0) {
+      logger.info("Scheduled order tasks ran", { reminded, closed });
+    }
+    return { reminded, closed };
+  }
+
+  /**
+   * Freezes a session whose cutoff has already passed
+   * @param session - Session to check, updated in place
+   * @returns Whether the session was closed
+   */
+  async enforce(session: OrderSession): Promise<boolean> {
+    if (session.status !== "open" || !session.cutoffAt) return false;
+    if (new Date() < new Date(session.cutoffAt)) return false;
+
+    await this.freeze(session);
+    return true;
+  }
+
+  private async remind(session: OrderSession, cutoff: Date): Promise<void> {
+    // Mark first so a failed post isn't retried every tick
+    session.reminderSentAt = new Date().toISOString();
+    await this.orderSessionService.save(session);
+
+    const unconfirmed = session.participants.filter((p) => !p.confirmedAt);
+    if (unconfirmed.length === 0) return;
+
+    const names = unconfirmed
+      .map((p) => (p.userId ? `<@${p.userId}>` : p.name))
+      .join(" ");
+    const local = this.localTime(
+      cutoff,
+      await this.timeZoneFor(session.channel)
+    );
+    const notice = `⏰ *Orders close at ${slackTime(cutoff, local)}!* ${names} - please confirm your order ✅ or tell me what to change.`;
+    await this.slackService.postMessage(
+      session.channel,
+      `${notice}\n\n${this.orderSessionService.formatSummary(session)}`,
+      session.threadTs,
+      [
+        { type: "section", text: { type: "mrkdwn", text: notice } },
+        ...buildOrderSummaryBlocks(session),
+      ]
+    );
+  }
+
+  private async freeze(session: OrderSession): Promise<void> {
+    session.status = "closed";
+    await this.orderSessionService.save(session);
+    logger.info("Order round closed at cutoff", {
+      channel: session.channel,
+      threadTs: session.threadTs,
+      cutoffAt: session.cutoffAt,
+    });
+
+    const notice =
+      "🔒 *الطلبات اتقفلت!* It's cutoff time - the order list is frozen.";
+    await this.slackService.postMessage(
+      session.channel,
+      `${notice}\n\n${this.orderSessionService.formatSummary(session)}`,
+      session.threadTs,
+      [
+        { type: "section", text: { type: "mrkdwn", text: notice } },
+        ...buildOrderSummaryBlocks(session),
+      ]
+    );
+  }
+
+  private async timeZoneFor(channel: string): Promise<string> {
+    const profile = await this.promptRegistryService.resolve(
+      channel,
+      this.slackService.getTeamId()
+    );
+    return profile.timeZone ?? this.options.timeZone;
+  }
+
+  private localTime(at: Date, timeZone: string): string {
+    return at.toLocaleTimeString("en-GB", {
+      timeZone,
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  }
+}
@@ -0,0 +1,234 @@
+import { Message, SQS } from "@aws-sdk/client-sqs";
+import logger from "../logger";
+import { parseQueuedEvent, QueuedEvent } from "./event-queue.service";
+
+/** Messages read per ReceiveMessage call; SQS allows at most 10 */
+const RECEIVE_BATCH_SIZE = 10;
+
+/**
+ * How long a letter claimed for replay or deletion stays hidden, in
+ * seconds; long enough to handle the event in place, like the events queue
+ */
+const CLAIM_SECONDS = 360;
+
+/** Longest error text kept in a message attribute */
+const MAX_ERROR_LENGTH = 1000;
+
+/**
+ * An event that failed every processing attempt
+ */
+export interface DeadLetter {
+  /** DLQ message ID, used to pick the letter in the CLI */
+  messageId: string;
+  /** Original queue message body, replayed as-is */
+  body: string;
+  /** Parsed event, or null if the body is not a supported event */
+  event: QueuedEvent | null;
+  /** Why the last attempt failed; missing when the processor crashed or
+   * timed out and SQS moved the message itself */
+  error?: string;
+  /** Processing attempts before the event was given up on */
+  attempts?: number;
+  failedAt?: string;
+  /** Events queue message ID the processor logged the failure under */
+  sourceMessageId?: string;
+  /** Set while the letter is claimed for replay or deletion */
+  receiptHandle?: string;
+}
+
+/**
+ * Reads and manages the events dead-letter queue. The processor sends an
+ * event here itself after its last failed attempt, with the error in the
+ * message attributes; SQS's redrive policy catches the rest.
+ */
+export class DeadLetterService {
+  private sqs = new SQS();
+
+  /**
+   * @param queueUrl - Dead-letter queue URL
+   * @param eventsQueueUrl - Events queue that replays are sent back to
+   */
+  constructor(
+    private queueUrl: string,
+    private eventsQueueUrl?: string
+  ) {}
+
+  /**
+   * Sends an event that failed its last attempt to the dead-letter queue
+   * @param body - Original queue message body
+   * @param error - Error from the last attempt
+   * @param attempts - Attempts made, from ApproximateReceiveCount
+   * @param sourceMessageId - Events queue message ID, for finding its logs
+   */
+  async send(
+    body: string,
+    error: unknown,
+    attempts: number,
+    sourceMessageId: string
+  ): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    await this.sqs.sendMessage({
+      QueueUrl: this.queueUrl,
+      MessageBody: body,
+      MessageAttributes: {
+        error: {
+          DataType: "String",
+          StringValue: message.substring(0, MAX_ERROR_LENGTH) || "(no message)",
+        },
+        attempts: { DataType: "Number", StringValue: String(attempts) },
+        failedAt: { DataType: "String", StringValue: new Date().toISOString() },
+        sourceMessageId: { DataType: "String", StringValue: sourceMessageId },
+      },
+    });
+    logger.warn("Event moved to the dead-letter queue", {
+      sourceMessageId,
+      attempts,
+    });
+  }
+
+  /**
+   * Lists letters without taking them off the queue
+   * @param limit - Most letters to return
+   * @returns Letters in the order SQS returned them
+   */
+  async list(limit = 50): Promise<DeadLetter[]> {
+    const letters: DeadLetter[] = [];
+
+    // Read letters stay hidden until the end so each is read once, then
+    // they are all released
+    try {
+      while (letters.length < limit) {
+        const batch = await this.receive(CLAIM_SECONDS);
+        if (batch.length === 0) break;
+        letters.push(...batch);
+      }
+    } finally {
+      await Promise.all(letters.map((letter) => this.release(letter)));
+    }
+    return letters
+      .slice(0, limit)
+      .map((letter) => ({ ...letter, receiptHandle: undefined }));
+  }
+
+  /**
+   * Claims one letter so it can be replayed or deleted. Other letters read
+   * along the way are released right away.
+   * @param messageId - DLQ message ID
+   * @returns The claimed letter, or undefined if it is not on the queue
+   */
+  async claim(messageId: string): Promise<DeadLetter | undefined> {
+    const seen = new Set<string>();
+
+    for (;;) {
+      const batch = await this.receive(CLAIM_SECONDS);
+      const fresh = batch.filter((letter) => !seen.has(letter.messageId));
+      const match = batch.find((letter) => letter.messageId === messageId);
+
+      await Promise.all(
+        batch
+          .filter((letter) => letter !== match)
+          .map((letter) => this.release(letter))
+      );
+      if (match) return match;
+      if (fresh.length === 0) return undefined;
+      fresh.forEach((letter) => seen.add(letter.messageId));
+    }
+  }
+
+  /**
+   * Claims up to a batch of letters, e.g. to replay everything
+   * @returns Claimed letters; empty once the queue is drained
+   */
+  async claimBatch(): Promise<DeadLetter[]> {
+    return this.receive(CLAIM_SECONDS);
+  }
+
+  /**
+   * Sends a claimed letter back to the events queue and removes it here
+   * @param letter - Letter returned by claim()
+   * @throws {Error} If no events queue URL is configured
+   */
+  async requeue(letter: DeadLetter): Promise<void> {
+    if (!this.eventsQueueUrl) {
+      throw new Error("EVENTS_QUEUE_URL is not set; can't requeue events");
+    }
+    await this.sqs.sendMessage({
+      QueueUrl: this.eventsQueueUrl,
+      MessageBody: letter.body,
+    });
+    await this.delete(letter);
+    logger.info("Dead letter requeued", { messageId: letter.messageId });
+  }
+
+  /**
+   * Removes a claimed letter from the queue
+   * @param letter - Letter returned by claim()
+   */
+  async delete(letter: DeadLetter): Promise<void> {
+    if (!letter.receiptHandle) {
+      throw new Error(`Dead letter ${letter.messageId} is not claimed`);
+    }
+    await this.sqs.deleteMessage({
+      QueueUrl: this.queueUrl,
+      ReceiptHandle: letter.receiptHandle,
+    });
+  }
+
+  /**
+   * Makes a claimed letter visible again without handling it
+   * @param letter - Letter returned by claim()
+   */
+  async release(letter: DeadLetter): Promise<void> {
+    if (!letter.receiptHandle) return;
+    await this.sqs.changeMessageVisibility({
+      QueueUrl: this.queueUrl,
+      ReceiptHandle: letter.receiptHandle,
+      VisibilityTimeout: 0,
+    });
+  }
+
+  /**
+   * Deletes every letter. SQS allows one purge per queue every 60 seconds.
+   */
+  async purge(): Promise<void> {
+    await this.sqs.purgeQueue({ QueueUrl: this.queueUrl });
+    logger.info("Dead-letter queue purged");
+  }
+
+  private async receive(visibilityTimeout: number): Promise<DeadLetter[]> {
+    const result = await this.sqs.receiveMessage({
+      QueueUrl: this.queueUrl,
+      MaxNumberOfMessages: RECEIVE_BATCH_SIZE,
+      MessageAttributeNames: ["All"],
+      VisibilityTimeout: visibilityTimeout,
+      // Long polling asks every SQS server, so small queues are read fully
+      WaitTimeSeconds: 1,
+    });
+    return (result.Messages ?? []).map(toDeadLetter);
+  }
+}
+
+function toDeadLetter(message: Message): DeadLetter {
+  const body = message.Body ?? "";
+  const attribute = (name: string): string | undefined =>
+    message.MessageAttributes?.[name]?.StringValue;
+
+  let event: QueuedEvent | null = null;
+  try {
+    event = parseQueuedEvent(body);
+  } catch {
+    // Not JSON; shown raw
+  }
+
+  const attempts = attribute("attempts");
+  return {
+    messageId: message.MessageId ?? "",
+    body,
+    event,
+    error: attribute("error"),
+    attempts: attempts ? Number(attempts) : undefined,
+    failedAt: attribute("failedAt"),
+    sourceMessageId: attribute("sourceMessageId"),
+    receiptHandle: message.ReceiptHandle,
+  };
+}
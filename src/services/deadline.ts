@@ -0,0 +1,14 @@
+/** Reply posted instead of an answer when a request runs out of time */
+export const TIMED_OUT_MESSAGE =
+  "⏱️ That took too long, sorry! الموضوع طوّل معايا - please mention me again in a minute.";
+
+/**
+ * Creates a signal that aborts at the deadline, for passing to fetch and
+ * model calls so a hung request is cut off instead of running until the
+ * Lambda times out
+ * @param deadline - Epoch milliseconds
+ * @returns Signal that aborts with a TimeoutError at the deadline
+ */
+export function deadlineSignal(deadline: number): AbortSignal {
+  return AbortSignal.timeout(Math.max(0, deadline - Date.now()));
+}
@@ -1,8 +1,112 @@
-import { AppMentionEvent } from "@slack/bolt";
+import {
+  AppMentionEvent,
+  KnownBlock,
+  MessageChangedEvent,
+  MessageDeletedEvent,
+  ReactionAddedEvent,
+  ReactionRemovedEvent,
+} from "@slack/bolt";
 import logger from "../logger";
-import { GeminiService, Message } from "./gemini.service";
+import { buildDirectMessageContext } from "../prompts/direct-message";
+import {
+  buildOrderUpdateInstruction,
+  orderUpdateSchema,
+  parseOrderUpdate,
+} from "../prompts/order-update";
+import { Receipt } from "../prompts/receipt-extraction";
+import {
+  buildSplitExtractionInstruction,
+  parseSplitExtraction,
+  splitExtractionSchema,
+} from "../prompts/split-extraction";
+import {
+  BillSplitService,
+  SplitInput,
+  SplitResult,
+} from "./bill-split.service";
+import { Message, PartialTextHandler } from "./llm-provider";
+import { LlmService } from "./llm.service";
 import { ImageProcessingService } from "./image-processing.service";
-import { SlackService } from "./slack.service";
+import {
+  formatItem,
+  isNewerTs,
+  OrderSession,
+  OrderSessionService,
+  Participant,
+} from "./order-session.service";
+import { ContextBudgetService } from "./context-budget.service";
+import { CutoffService } from "./cutoff.service";
+import { deadlineSignal, TIMED_OUT_MESSAGE } from "./deadline";
+import { DirectMessageEvent } from "./event-queue.service";
+import { EventAttempt } from "./idempotency.service";
+import { MenuCatalogService } from "./menu-catalog.service";
+import { MenuImportService } from "./menu-import.service";
+import { buildReplyBlocks, buildSplitBlocks } from "./order-blocks";
+import { PAYMENT_REACTIONS, PaymentService } from "./payment.service";
+import { PLACEHOLDER_TEXT, ProgressIndicator } from "./progress-indicator";
+import { PromptRegistryService } from "./prompt-registry.service";
+import { ReceiptService } from "./receipt.service";
+import { SkippedAttachment, SlackMessage, SlackService } from "./slack.service";
+
+export interface EventHandlerOptions {
+  /** Stream partial responses into the placeholder message */
+  streamResponses: boolean;
+}
+
+const DEFAULT_OPTIONS: EventHandlerOptions = {
+  streamResponses: false,
+};
+
+/**
+ * Mentions asking Garçon to read a menu, e.g. "@Garçon import menu for Abou
+ * Tarek". A bare "menu" is not enough: "what's on the menu?" is a question.
+ */
+const MENU_REQUEST =
+  /\b(?:import|add|save)\s+(?:the\s+|this\s+)?menus?\b|(?:ضيف|احفظ)\s+(?:ال)?(?:منيو|مينيو)/i;
+
+interface LoadedConversation {
+  messages: Message[];
+  /** Files left out of the conversation, with the message ts they came from */
+  skippedAttachments: SkippedAttachment[];
+}
+
+/**
+ * Where a changed message lives and who wrote it
+ */
+interface MessageChange {
+  ts: string;
+  threadTs: string;
+  user?: string;
+  isBot: boolean;
+  textChanged: boolean;
+}
+
+/** Fields shared by the message variants carried in edit and delete events */
+type ChangedMessage = Partial<
+  Record<"ts" | "thread_ts" | "user" | "bot_id" | "text", string>
+>;
+
+/**
+ * Reads the affected message from an edit or delete event
+ */
+function describeMessageChange(
+  event: MessageChangedEvent | MessageDeletedEvent
+): MessageChange {
+  const previous = event.previous_message as ChangedMessage;
+  const current =
+    event.subtype === "message_changed"
+      ? (event.message as ChangedMessage)
+      : previous;
+
+  const ts = current.ts ?? previous.ts ?? "";
+  return {
+    ts,
+    threadTs: current.thread_ts ?? ts,
+    user: current.user,
+    isBot: Boolean(current.bot_id),
+    textChanged: current.text !== previous.text,
+  };
+}
 
 /**
  * Reusable event handler service for processing Slack events
@@ -11,16 +115,42 @@ import { SlackService } from "./slack.service";
 export class EventHandlerService {
   constructor(
     private slackService: SlackService,
-    private geminiService: GeminiService,
-    private imageProcessingService: ImageProcessingService
+    private llmService: LlmService,
+    private imageProcessingService: ImageProcessingService,
+    private billSplitService: BillSplitService,
+    private receiptService: ReceiptService,
+    private orderSessionService: OrderSessionService,
+    private contextBudgetService: ContextBudgetService,
+    private paymentService: PaymentService,
+    private cutoffService: CutoffService,
+    private promptRegistryService: PromptRegistryService,
+    private menuCatalogService: MenuCatalogService,
+    private menuImportService: MenuImportService,
+    private options: EventHandlerOptions = DEFAULT_OPTIONS
   ) {}
 
   /**
    * Handles app mention events
    * @param event - Slack app mention event
+   * @param deadline - Epoch ms by which to reply; past it, model calls and
+   * downloads are aborted and a "took too long" reply is posted instead
+   * @param attempt - Idempotency attempt, so a retry edits the placeholder
+   * posted by the failed one
    */
-  async handleAppMention(event: AppMentionEvent): Promise<void> {
+  async handleAppMention(
+    event: AppMentionEvent,
+    deadline?: number,
+    attempt?: EventAttempt
+  ): Promise<void> {
     const requestId = `${event.channel}-${Date.now()}`;
+    const signal = deadline ? deadlineSignal(deadline) : undefined;
+    const progress = new ProgressIndicator(
+      this.slackService,
+      event.channel,
+      event.thread_ts || event.ts,
+      event.ts,
+      attempt
+    );
 
     try {
       logger.info("Mention received", {
@@ -33,70 +163,173 @@ export class EventHandlerService {
       const { channel, thread_ts, ts } = event;
       const threadTs = thread_ts || ts;
 
-      logger.info("Fetching thread messages", { requestId, channel, threadTs });
-      const slackMessages = await this.slackService.fetchThreadMessages(
+      // Let users know we're on it before the slow model calls start
+      await progress.start();
+
+      const menuReply = MENU_REQUEST.test(event.text)
+        ? await this.importMenu(
+            requestId,
+            channel,
+            threadTs,
+            ts,
+            event.text,
+            signal
+          )
+        : null;
+      if (menuReply) {
+        await progress.finish(menuReply);
+        logger.info("Request completed successfully", { requestId });
+        return;
+      }
+
+      const session = await this.orderSessionService.getOrCreate(
         channel,
-        threadTs
+        threadTs,
+        event.user
+      );
+      // Orders posted after a missed scheduler tick must not get in
+      await this.cutoffService.enforce(session);
+      const reply = await this.composeReply(
+        requestId,
+        session,
+        this.options.streamResponses
+          ? (partial): Promise<void> => progress.update(partial)
+          : undefined,
+        { signal }
       );
 
-      logger.info("Thread messages fetched", {
+      logger.info("Posting response to Slack", {
         requestId,
-        messageCount: slackMessages.length,
+        channel,
+        threadTs,
       });
+      const text =
+        reply.text + this.formatSkippedAttachments(reply.skippedAttachments);
+      const rendered = this.renderReply(session, text, reply.split);
+      const replyTs = await progress.finish(rendered.text, rendered.blocks);
 
-      const botUserId = this.slackService.getBotUserId();
-      const geminiMessages: Message[] = [];
+      if (replyTs) {
+        this.rememberReply(session, replyTs, text, reply.split);
+        await this.orderSessionService.save(session);
+      }
 
-      for (const msg of slackMessages) {
-        const geminiMessage: Message = {
-          role: msg.user === botUserId ? "model" : "user",
-          content: msg.text,
-          userName: msg.userName,
-        };
+      logger.info("Request completed successfully", { requestId });
+    } catch (error) {
+      if (signal?.aborted) {
+        await this.reportTimeout(requestId, progress);
+        return;
+      }
+      logger.error("Error handling app mention", { requestId, error });
 
-        if (msg.images && msg.images.length > 0) {
-          const base64Images =
-            await this.imageProcessingService.convertBlobsToBase64(msg.images);
-          geminiMessage.images = base64Images;
-        }
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
 
-        geminiMessages.push(geminiMessage);
+      try {
+        logger.info("Sending error message to user", { requestId });
+        await progress.finish(
+          `Sorry, something went wrong! يا عم الحاج في مشكلة حصلت 😅\n\nError: ${errorMessage}`
+        );
+      } catch (postError) {
+        logger.error("Failed to post error message to Slack", {
+          requestId,
+          postError,
+        });
       }
+      throw error;
+    }
+  }
 
-      logger.info("Sending to Gemini", {
+  /**
+   * Handles messages sent to Garçon in a DM. The DM's recent history is the
+   * conversation, and the user's tab and open orders are added as context,
+   * so questions like "what do I owe?" can be answered privately. DMs never
+   * change orders.
+   * @param event - Slack message event from an IM channel
+   * @param deadline - Epoch ms by which to reply, as for mentions
+   * @param attempt - Idempotency attempt, as for mentions
+   */
+  async handleDirectMessage(
+    event: DirectMessageEvent,
+    deadline?: number,
+    attempt?: EventAttempt
+  ): Promise<void> {
+    const requestId = `${event.channel}-${Date.now()}`;
+    const signal = deadline ? deadlineSignal(deadline) : undefined;
+    // Threaded DM replies are answered in their thread, the rest top-level
+    const progress = new ProgressIndicator(
+      this.slackService,
+      event.channel,
+      event.thread_ts,
+      event.ts,
+      attempt
+    );
+
+    try {
+      logger.info("Direct message received", {
         requestId,
-        conversationLength: geminiMessages.length,
+        user: event.user,
+        channel: event.channel,
       });
+      await progress.start();
 
-      const response = await this.geminiService.generateResponse(
-        geminiMessages
+      const conversation = await this.toConversation(
+        requestId,
+        await this.slackService.fetchDirectMessages(event.channel, signal)
       );
-
-      logger.info("Gemini response received", {
+      const messages = this.contextBudgetService.fit(
         requestId,
-        responseLength: response.length,
-      });
+        conversation.messages
+      );
+      const userName = messages.find(
+        (msg) => msg.userId === event.user
+      )?.userName;
 
-      logger.info("Posting response to Slack", {
+      const profile = await this.promptRegistryService.resolve(
+        event.channel,
+        this.slackService.getTeamId()
+      );
+      const context = [
+        buildDirectMessageContext(
+          userName,
+          this.paymentService.formatUserBalance(
+            await this.paymentService.userBalance(event.user)
+          ),
+          await this.formatOpenOrders(event.user)
+        ),
+      ];
+
+      logger.info("Sending to LLM", {
         requestId,
-        channel,
-        threadTs,
+        conversationLength: messages.length,
+        persona: profile.persona,
       });
-      await this.slackService.postMessage(channel, response, threadTs);
+      const text = await this.llmService.generateResponse(
+        messages,
+        await this.promptRegistryService.buildSystemPrompt(profile),
+        context,
+        this.options.streamResponses
+          ? (partial): Promise<void> => progress.update(partial)
+          : undefined,
+        signal
+      );
 
+      const skipped = conversation.skippedAttachments.filter(
+        (file) => file.ts === event.ts
+      );
+      await progress.finish(text + this.formatSkippedAttachments(skipped));
       logger.info("Request completed successfully", { requestId });
     } catch (error) {
-      logger.error("Error handling app mention", { requestId, error });
+      if (signal?.aborted) {
+        await this.reportTimeout(requestId, progress);
+        return;
+      }
+      logger.error("Error handling direct message", { requestId, error });
 
       const errorMessage =
         error instanceof Error ? error.message : "An unknown error occurred";
-
       try {
-        logger.info("Sending error message to user", { requestId });
-        await this.slackService.postMessage(
-          event.channel,
-          `Sorry, something went wrong! يا عم الحاج في مشكلة حصلت 😅\n\nError: ${errorMessage}`,
-          event.thread_ts || event.ts
+        await progress.finish(
+          `Sorry, something went wrong! يا عم الحاج في مشكلة حصلت 😅\n\nError: ${errorMessage}`
         );
       } catch (postError) {
         logger.error("Failed to post error message to Slack", {
@@ -107,4 +340,809 @@ export class EventHandlerService {
       throw error;
     }
   }
+
+  /**
+   * Handles edited and deleted messages. When an order message Garçon has
+   * already answered changes, the thread's orders are read again from the
+   * start and Garçon's latest reply is regenerated in place.
+   * @param event - Slack message_changed or message_deleted event
+   * @param deadline - Epoch ms after which the refresh is abandoned; the
+   * old reply then stays until the next mention
+   */
+  async handleMessageChange(
+    event: MessageChangedEvent | MessageDeletedEvent,
+    deadline?: number
+  ): Promise<void> {
+    const requestId = `${event.channel}-${Date.now()}`;
+    const change = describeMessageChange(event);
+    const botUserId = this.slackService.getBotUserId();
+
+    // Our own chat.update calls come back as message_changed events
+    if (change.user === botUserId || change.isBot) return;
+    // Unfurls and reply-count updates also arrive as message_changed
+    if (event.subtype === "message_changed" && !change.textChanged) return;
+
+    const session = await this.orderSessionService.find(
+      event.channel,
+      change.threadTs
+    );
+    if (!session?.lastReplyTs) return;
+
+    await this.cutoffService.enforce(session);
+    if (session.status !== "open") {
+      logger.info("Ignoring message change in a closed order round", {
+        requestId,
+        status: session.status,
+      });
+      return;
+    }
+    // Not answered yet: the next mention will read the latest version
+    if (isNewerTs(change.ts, session.lastProcessedTs)) return;
+
+    logger.info("Order message changed; refreshing reply", {
+      requestId,
+      channel: event.channel,
+      threadTs: change.threadTs,
+      subtype: event.subtype,
+    });
+
+    const signal = deadline ? deadlineSignal(deadline) : undefined;
+    const saved = structuredClone(session);
+    const previous = this.orderSessionService.resetOrders(session);
+    let reply: { text: string; split: SplitResult | null };
+    try {
+      reply = await this.composeReply(requestId, session, undefined, {
+        before: session.lastReplyTs,
+        previous,
+        signal,
+      });
+    } catch (error) {
+      // composeReply may already have saved the rebuilt orders
+      await this.orderSessionService.save(saved);
+      if (!signal?.aborted) throw error;
+      logger.warn("Reply refresh ran out of time", { requestId });
+      return;
+    }
+
+    const rendered = this.renderReply(session, reply.text, reply.split);
+    await this.slackService.updateMessage(
+      event.channel,
+      session.lastReplyTs,
+      rendered.text,
+      rendered.blocks
+    );
+    this.rememberReply(session, session.lastReplyTs, reply.text, reply.split);
+    await this.orderSessionService.save(session);
+    logger.info("Reply refreshed after message change", { requestId });
+  }
+
+  /**
+   * Handles reactions on bill split messages: a ✅ or 💸 from a participant
+   * marks their share as paid, and removing it clears a payment made that
+   * way. The split message, or the reply carrying the split, is redrawn.
+   * @param event - Slack reaction_added or reaction_removed event
+   */
+  async handleReaction(
+    event: ReactionAddedEvent | ReactionRemovedEvent
+  ): Promise<void> {
+    if (!PAYMENT_REACTIONS.has(event.reaction)) return;
+    if (event.item.type !== "message") return;
+
+    const { channel, ts } = event.item;
+    const session = await this.paymentService.findSessionForMessage(
+      channel,
+      ts
+    );
+    if (!session?.split) return;
+
+    const participant = session.participants.find(
+      (p) => p.userId === event.user
+    );
+    if (!participant) {
+      logger.info("Ignoring payment reaction from a non-participant", {
+        channel,
+        user: event.user,
+      });
+      return;
+    }
+
+    const changed =
+      event.type === "reaction_added"
+        ? this.paymentService.markPaid(session, participant, "reaction")
+        : // Only undo what the reaction did; a button or message payment stays
+          participant.paidVia === "reaction" &&
+          this.paymentService.markUnpaid(session, participant);
+    if (!changed) return;
+
+    await this.orderSessionService.save(session);
+    if (ts === session.lastReplyTs && session.lastReplyText !== undefined) {
+      const rendered = this.renderReply(
+        session,
+        session.lastReplyText,
+        session.splitMessageTs?.includes(ts) ? session.split : undefined
+      );
+      await this.slackService.updateMessage(
+        channel,
+        ts,
+        rendered.text,
+        rendered.blocks
+      );
+    } else if (session.splitMessageTs?.includes(ts)) {
+      await this.slackService.updateMessage(
+        channel,
+        ts,
+        this.billSplitService.formatSplit(session.split),
+        buildSplitBlocks(session, session.split)
+      );
+    }
+  }
+
+  /**
+   * Reads the thread, folds new messages into the saved order state,
+   * computes any bill split and generates Garçon's reply. The session is
+   * saved before the reply is generated.
+   * @param requestId - Request identifier for logging
+   * @param session - Thread's order session
+   * @param onPartial - Receives streamed partial text, if streaming
+   * @param options - before: only read messages older than this ts;
+   * previous: participants from before resetOrders(), whose payments and
+   * confirmations are carried over before anything is saved;
+   * signal: request deadline
+   * @returns Reply text, the split to post under it, and the new messages'
+   * skipped attachments
+   * @throws {Error} If the orders being rebuilt could not be read again
+   */
+  private async composeReply(
+    requestId: string,
+    session: OrderSession,
+    onPartial?: PartialTextHandler,
+    options: {
+      before?: string;
+      previous?: Participant[];
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<{
+    text: string;
+    split: SplitResult | null;
+    skippedAttachments: SkippedAttachment[];
+  }> {
+    const { before, previous, signal } = options;
+    const conversation = await this.loadConversation(
+      requestId,
+      session.channel,
+      session.threadTs,
+      signal
+    );
+    const messages = before
+      ? conversation.messages.filter(
+          (msg) => msg.ts && isNewerTs(before, msg.ts)
+        )
+      : conversation.messages;
+
+    // Only report files from messages we have not answered yet
+    const newSkipped = conversation.skippedAttachments.filter(
+      (file) => file.ts && isNewerTs(file.ts, session.lastProcessedTs)
+    );
+    const cutoffBefore = session.cutoffAt;
+    const updated = await this.updateOrderSession(
+      requestId,
+      session,
+      messages,
+      signal
+    );
+    if (previous) {
+      // Saving now would wipe the thread's orders
+      if (!updated) throw new Error("Failed to read the thread's orders again");
+      this.orderSessionService.carryOverStatus(session, previous);
+    }
+    await this.applyMenuPrices(requestId, session);
+
+    const promptMessages = this.contextBudgetService.fit(requestId, messages);
+    const split = await this.computeBillSplit(
+      requestId,
+      session,
+      promptMessages,
+      false,
+      signal
+    );
+    await this.orderSessionService.save(session);
+
+    const context = [this.orderSessionService.formatForPrompt(session)];
+    const splitText = split ? this.billSplitService.formatSplit(split) : "";
+    if (split) {
+      context.push(
+        `## Computed Bill Split\nPosted right after your reply, exactly as below; don't repeat or change it.\n${splitText}`
+      );
+    }
+
+    const profile = await this.promptRegistryService.resolve(
+      session.channel,
+      this.slackService.getTeamId()
+    );
+    logger.info("Sending to LLM", {
+      requestId,
+      conversationLength: promptMessages.length,
+      hasComputedSplit: Boolean(split),
+      persona: profile.persona,
+    });
+
+    const text = await this.llmService.generateResponse(
+      promptMessages,
+      await this.promptRegistryService.buildSystemPrompt(profile),
+      context,
+      onPartial,
+      signal
+    );
+
+    logger.info("LLM response received", {
+      requestId,
+      responseLength: text.length,
+    });
+
+    // State the cutoff exactly rather than trusting the model with time zones
+    const notice =
+      session.cutoffAt !== cutoffBefore
+        ? `\n\n${await this.cutoffService.formatScheduled(session)}`
+        : "";
+    return { text: text + notice, split, skippedAttachments: newSkipped };
+  }
+
+  /**
+   * Lays out a reply with the order summary and any split. The split is
+   * posted as computed; the model only writes the text around it.
+   * @param session - Thread's order session
+   * @param text - Reply text without the split
+   * @param split - Split to post with the reply
+   * @returns Plain-text fallback and blocks
+   */
+  private renderReply(
+    session: OrderSession,
+    text: string,
+    split?: SplitResult | null
+  ): { text: string; blocks: KnownBlock[] } {
+    return {
+      text: split
+        ? `${text}\n\n${this.billSplitService.formatSplit(split)}`
+        : text,
+      blocks: buildReplyBlocks(session, text, split ?? undefined),
+    };
+  }
+
+  /**
+   * Records the latest reply so edits refresh it and clicks and payment
+   * reactions redraw it
+   * @param session - Thread's order session, updated in place
+   * @param ts - Reply timestamp
+   * @param text - Reply text without the split
+   * @param split - Split posted with the reply
+   */
+  private rememberReply(
+    session: OrderSession,
+    ts: string,
+    text: string,
+    split: SplitResult | null
+  ): void {
+    session.lastReplyTs = ts;
+    session.lastReplyText = text;
+    const others = (session.splitMessageTs ?? []).filter(
+      (splitTs) => splitTs !== ts
+    );
+    session.splitMessageTs = split ? [...others, ts] : others;
+  }
+
+  /**
+   * Refreshes a thread's order state and computes its bill split without
+   * generating a chat reply
+   * @param channel - Channel ID
+   * @param threadTs - Thread timestamp
+   * @param signal - Request deadline
+   * @returns Split result, or null if there is nothing to split yet
+   */
+  async splitThread(
+    channel: string,
+    threadTs: string,
+    signal?: AbortSignal
+  ): Promise<SplitResult | null> {
+    const requestId = `${channel}-${Date.now()}`;
+    logger.info("Bill split requested", { requestId, channel, threadTs });
+
+    const { messages } = await this.loadConversation(
+      requestId,
+      channel,
+      threadTs,
+      signal
+    );
+    const session = await this.orderSessionService.getOrCreate(
+      channel,
+      threadTs
+    );
+    await this.updateOrderSession(requestId, session, messages, signal);
+    await this.applyMenuPrices(requestId, session);
+
+    const split = await this.computeBillSplit(
+      requestId,
+      session,
+      this.contextBudgetService.fit(requestId, messages),
+      true,
+      signal
+    );
+    // A split cut short by the deadline is not "nothing to split"
+    signal?.throwIfAborted();
+    await this.orderSessionService.save(session);
+
+    return split;
+  }
+
+  /**
+   * Fetches a thread and converts it into model messages
+   * @param requestId - Request identifier for logging
+   * @param channel - Channel ID
+   * @param threadTs - Thread timestamp
+   * @param signal - Request deadline
+   * @returns Messages in chronological order with normalized base64 images
+   * and documents, and the files that had to be left out
+   */
+  private async loadConversation(
+    requestId: string,
+    channel: string,
+    threadTs: string,
+    signal?: AbortSignal
+  ): Promise<LoadedConversation> {
+    logger.info("Fetching thread messages", { requestId, channel, threadTs });
+    const slackMessages = await this.slackService.fetchThreadMessages(
+      channel,
+      threadTs,
+      signal
+    );
+
+    logger.info("Thread messages fetched", {
+      requestId,
+      messageCount: slackMessages.length,
+    });
+
+    return this.toConversation(requestId, slackMessages);
+  }
+
+  /**
+   * Converts Slack messages into model messages
+   * @param requestId - Request identifier for logging
+   * @param slackMessages - Messages in chronological order
+   * @returns Messages with normalized base64 images and documents, and the
+   * files that had to be left out
+   */
+  private async toConversation(
+    requestId: string,
+    slackMessages: SlackMessage[]
+  ): Promise<LoadedConversation> {
+    const botUserId = this.slackService.getBotUserId();
+    const messages: Message[] = [];
+    const skippedAttachments: SkippedAttachment[] = [];
+    const imageBudget = this.imageProcessingService.createBudget();
+
+    // Newest first, so the image budget goes to the latest receipts
+    for (const msg of [...slackMessages].reverse()) {
+      // Placeholders are in-progress replies, not part of the conversation
+      if (msg.user === botUserId && msg.text === PLACEHOLDER_TEXT) continue;
+
+      const message: Message = {
+        role: msg.user === botUserId ? "model" : "user",
+        content: msg.text,
+        userName: msg.userName,
+        userId: msg.user,
+        ts: msg.ts,
+      };
+
+      const attachments = msg.attachments ?? [];
+      const images = attachments.filter((file) => file.kind === "image");
+      const documents = attachments.filter((file) => file.kind === "document");
+      const skipped = [...(msg.skippedAttachments ?? [])];
+
+      if (images.length > 0) {
+        const normalized = await this.imageProcessingService.normalizeImages(
+          images,
+          imageBudget
+        );
+        if (normalized.images.length > 0) message.images = normalized.images;
+        skipped.push(...normalized.skipped);
+      }
+
+      if (documents.length > 0) {
+        message.documents = await Promise.all(
+          documents.map(async (doc) => ({
+            data: Buffer.from(await doc.blob.arrayBuffer()).toString("base64"),
+            mimeType: doc.mimeType,
+            name: doc.name,
+          }))
+        );
+      }
+
+      // Tell the model a file existed so it doesn't assume there was none
+      for (const file of skipped) {
+        message.content += `\n[file "${file.name}" not shown: ${file.reason}]`;
+        skippedAttachments.push({ ...file, ts: msg.ts });
+      }
+
+      messages.unshift(message);
+    }
+
+    if (skippedAttachments.length > 0) {
+      logger.warn("Some attachments were skipped", {
+        requestId,
+        skippedAttachments,
+      });
+    }
+
+    return { messages, skippedAttachments };
+  }
+
+  /**
+   * Lists the open order rounds a user has items in, for DM replies
+   * @param userId - Slack user ID
+   * @returns One line per round
+   */
+  private async formatOpenOrders(userId: string): Promise<string[]> {
+    const lines: string[] = [];
+    for (const session of await this.orderSessionService.list()) {
+      if (session.status !== "open") continue;
+      const participant = session.participants.find((p) => p.userId === userId);
+      if (!participant) continue;
+
+      const items = participant.items
+        .map((item) => formatItem(item, session.menu?.currency))
+        .join(", ");
+      const restaurant = session.menu?.restaurant ?? session.restaurant;
+      const details = [
+        restaurant,
+        participant.confirmedAt ? "confirmed" : "not confirmed yet",
+        session.cutoffAt ? `closes ${session.cutoffAt}` : undefined,
+      ].filter(Boolean);
+      lines.push(`• <#${session.channel}> (${details.join(", ")}): ${items}`);
+    }
+    return lines;
+  }
+
+  /**
+   * Replaces the placeholder with a "took too long" reply. The request is
+   * treated as handled: a redelivery would most likely time out again.
+   * @param requestId - Request identifier for logging
+   * @param progress - The request's progress indicator
+   */
+  private async reportTimeout(
+    requestId: string,
+    progress: ProgressIndicator
+  ): Promise<void> {
+    logger.warn("Request ran out of time", { requestId });
+    try {
+      await progress.finish(TIMED_OUT_MESSAGE);
+    } catch (postError) {
+      logger.error("Failed to post timeout message to Slack", {
+        requestId,
+        postError,
+      });
+    }
+  }
+
+  /**
+   * Builds the note appended to a reply when files had to be skipped
+   * @param skipped - Files skipped from messages being answered
+   * @returns Note starting with a blank line, or "" when nothing was skipped
+   */
+  private formatSkippedAttachments(skipped: SkippedAttachment[]): string {
+    if (skipped.length === 0) return "";
+
+    const lines = skipped.map((file) => `• ${file.name} - ${file.reason}`);
+    return `\n\n⚠️ معرفتش أشوف الملفات دي - I couldn't look at these files:\n${lines.join("\n")}`;
+  }
+
+  /**
+   * Folds messages posted since the last mention into the thread's saved
+   * order state. On failure the messages not yet folded in are retried on
+   * the next mention.
+   * @param requestId - Request identifier for logging
+   * @param session - Session to update in place
+   * @param messages - Conversation messages
+   * @param signal - Request deadline
+   * @returns False if the update failed
+   */
+  private async updateOrderSession(
+    requestId: string,
+    session: OrderSession,
+    messages: Message[],
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    const newMessages = messages.filter(
+      (msg) =>
+        msg.role === "user" &&
+        msg.ts &&
+        isNewerTs(msg.ts, session.lastProcessedTs)
+    );
+    if (newMessages.length === 0) return true;
+
+    try {
+      // Messages trimmed to fit the budget would be marked processed without
+      // the model seeing them, so long runs go in order, in batches that fit
+      for (let i = 0; i < newMessages.length;) {
+        const batch = newMessages.slice(
+          i,
+          i + this.contextBudgetService.countFitting(newMessages.slice(i))
+        );
+        i += batch.length;
+
+        const update = parseOrderUpdate(
+          await this.llmService.generateStructured(
+            this.contextBudgetService.fit(requestId, batch),
+            buildOrderUpdateInstruction(
+              JSON.stringify({
+                status: session.status,
+                participants: session.participants,
+                adjustments: session.adjustments,
+                payer: session.payer,
+                restaurant: session.restaurant,
+              })
+            ),
+            orderUpdateSchema,
+            signal
+          )
+        );
+
+        this.orderSessionService.applyUpdate(session, update);
+        if (update.restaurant) session.restaurant = update.restaurant;
+        session.lastProcessedTs = batch[batch.length - 1].ts;
+
+        const cutoff =
+          update.cutoff &&
+          (await this.cutoffService.resolve(session.channel, update.cutoff));
+        if (cutoff && session.status === "open") {
+          this.cutoffService.schedule(session, cutoff);
+        }
+
+        logger.info("Order session updated", {
+          requestId,
+          newMessages: batch.length,
+          remainingMessages: newMessages.length - i,
+          changedParticipants: update.participants.length,
+          newAdjustments: update.adjustments.length,
+          payments: update.payments.length,
+          participants: session.participants.length,
+        });
+      }
+      return true;
+    } catch (error) {
+      logger.warn("Order session update failed", { requestId, error });
+      return false;
+    }
+  }
+
+  /**
+   * Matches ordered items to the thread's restaurant menu, renaming them to
+   * their menu entries and attaching prices. Items lose their menu prices
+   * if the restaurant has no menu in the catalog.
+   * @param requestId - Request identifier for logging
+   * @param session - Thread's order session, updated in place
+   */
+  private async applyMenuPrices(
+    requestId: string,
+    session: OrderSession
+  ): Promise<void> {
+    const restaurant = session.restaurant ?? session.receipt?.restaurant;
+    const menu = restaurant
+      ? await this.menuCatalogService.findRestaurant(restaurant)
+      : null;
+
+    session.menu = menu
+      ? {
+          restaurant: menu.restaurant,
+          currency: menu.currency,
+          source: menu.source,
+        }
+      : undefined;
+    for (const participant of session.participants) {
+      participant.items = this.menuCatalogService.priceItems(
+        participant.items,
+        menu
+      );
+    }
+
+    if (menu) {
+      logger.info("Order items matched to menu", {
+        requestId,
+        restaurant: menu.restaurant,
+        priced: session.participants
+          .flatMap((p) => p.items)
+          .filter((item) => item.price !== undefined).length,
+      });
+    }
+  }
+
+  /**
+   * Reads a menu posted in the thread and adds it to the catalog. The menu
+   * is taken from the mention itself or, failing that, the latest earlier
+   * message with images or files, so "@Garçon import menu for Abou Tarek"
+   * also works as a follow-up to a photo. The thread's receipt is never
+   * read as a menu.
+   * @param requestId - Request identifier for logging
+   * @param channel - Channel ID
+   * @param threadTs - Thread timestamp
+   * @param ts - Timestamp of the mention
+   * @param text - Mention text, which may name the restaurant
+   * @param signal - Request deadline
+   * @returns Reply text, or null if there's no menu to read and the mention
+   * should be answered normally
+   */
+  private async importMenu(
+    requestId: string,
+    channel: string,
+    threadTs: string,
+    ts: string,
+    text: string,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    const { messages } = await this.loadConversation(
+      requestId,
+      channel,
+      threadTs,
+      signal
+    );
+    const session = await this.orderSessionService.find(channel, threadTs);
+    const candidate = messages
+      .filter(
+        (msg) =>
+          msg.role === "user" &&
+          msg.ts &&
+          msg.ts !== session?.receiptTs &&
+          !isNewerTs(msg.ts, ts) &&
+          (msg.images?.length || msg.documents?.length)
+      )
+      .pop();
+    if (!candidate) return null;
+
+    logger.info("Reading posted menu", { requestId, menuTs: candidate.ts });
+    const result = await this.menuImportService.importFromMessage(
+      candidate,
+      text,
+      signal
+    );
+    return result.kind === "not-menu"
+      ? null
+      : this.menuImportService.formatResult(result);
+  }
+
+  /**
+   * Asks the model for the structured split inputs and runs them through the
+   * split engine, so the reply renders exact numbers instead of model math
+   * @param requestId - Request identifier for logging
+   * @param session - Thread's order session; receives the extracted receipt
+   * @param messages - Conversation messages
+   * @param force - Split even if nobody asked for it in the thread
+   * @param signal - Request deadline
+   * @returns Split result, or null when no split applies
+   */
+  private async computeBillSplit(
+    requestId: string,
+    session: OrderSession,
+    messages: Message[],
+    force = false,
+    signal?: AbortSignal
+  ): Promise<SplitResult | null> {
+    try {
+      // Only files posted since the last check can hold a new receipt
+      const unchecked = messages.filter(
+        (msg) => msg.ts && isNewerTs(msg.ts, session.receiptCheckedTs)
+      );
+      const found = await this.receiptService.findLatestReceipt(
+        unchecked,
+        signal
+      );
+      session.receiptCheckedTs =
+        messages[messages.length - 1]?.ts ?? session.receiptCheckedTs;
+
+      if (found) {
+        session.receipt = found.receipt;
+        session.receiptTs = found.ts;
+        await this.warnIfReceiptMismatch(
+          requestId,
+          session.channel,
+          session.threadTs,
+          found.receipt
+        );
+      }
+      const receipt = session.receipt;
+
+      const extraction = parseSplitExtraction(
+        await this.llmService.generateStructured(
+          messages,
+          buildSplitExtractionInstruction(
+            receipt,
+            this.orderSessionService.formatForPrompt(session)
+          ),
+          splitExtractionSchema,
+          signal
+        )
+      );
+
+      if (
+        (!extraction.shouldSplit && !receipt && !force) ||
+        extraction.input.participants.length === 0
+      ) {
+        logger.info("No bill split requested", { requestId });
+        return null;
+      }
+
+      const profile = await this.promptRegistryService.resolve(
+        session.channel,
+        this.slackService.getTeamId()
+      );
+      const input = receipt
+        ? this.applyReceipt(extraction.input, receipt)
+        : {
+            ...extraction.input,
+            // Without a receipt, fall back to the channel's local bill rules
+            vatRate: extraction.input.vatRate ?? profile.vatRate,
+            currency: extraction.input.currency ?? profile.currency,
+          };
+      const result = this.billSplitService.split(input);
+      logger.info("Bill split computed", {
+        requestId,
+        participants: result.shares.length,
+        total: result.total,
+        fromReceipt: Boolean(receipt),
+      });
+
+      session.split = result;
+      return result;
+    } catch (error) {
+      // Fall back to a plain reply rather than failing the whole mention
+      logger.warn("Bill split computation failed", { requestId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Posts a warning to the thread when the receipt's line items don't
+   * reconcile against its printed total
+   */
+  private async warnIfReceiptMismatch(
+    requestId: string,
+    channel: string,
+    threadTs: string,
+    receipt: Receipt
+  ): Promise<void> {
+    const validation = this.receiptService.validate(receipt);
+    if (validation.reconciles) return;
+
+    logger.warn("Receipt does not reconcile", {
+      requestId,
+      computedTotal: validation.computedTotal,
+      printedTotal: receipt.total,
+      difference: validation.difference,
+    });
+    await this.slackService.postMessage(
+      channel,
+      this.receiptService.formatMismatchWarning(receipt, validation),
+      threadTs
+    );
+  }
+
+  /**
+   * Takes the bill-level charges from the extracted receipt rather than
+   * from the model's reading of the thread
+   */
+  private applyReceipt(input: SplitInput, receipt: Receipt): SplitInput {
+    const discounts =
+      receipt.discount > 0 && !input.discounts?.length
+        ? [{ amount: receipt.discount }]
+        : input.discounts;
+
+    return {
+      ...input,
+      deliveryFee: receipt.deliveryFee,
+      serviceCharge: receipt.serviceCharge,
+      serviceRate: undefined,
+      vat: receipt.vat,
+      vatRate: undefined,
+      total: receipt.total,
+      currency: receipt.currency,
+      discounts,
+    };
+  }
 }
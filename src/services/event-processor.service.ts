@@ -0,0 +1,103 @@
+import { ActionHandlerService } from "./action-handler.service";
+import { CommandHandlerService } from "./command-handler.service";
+import { EventHandlerService } from "./event-handler.service";
+import { QueuedEvent } from "./event-queue.service";
+import { IdempotencyService, messageEventKey } from "./idempotency.service";
+
+/**
+ * Builds the idempotency key for a queued event, matching the keys Socket
+ * Mode uses for the same Slack events
+ * @param event - Queued event envelope
+ * @returns Idempotency key
+ */
+export function queuedEventKey(event: QueuedEvent): string {
+  switch (event.kind) {
+    case "app_mention":
+    case "direct_message":
+      return messageEventKey(event.payload);
+    case "message_change":
+      return `change:${event.payload.channel}:${event.payload.ts}`;
+    case "reaction":
+      return `reaction:${event.payload.event_ts}`;
+    case "block_action":
+      return `action:${event.payload.trigger_id}`;
+    case "slash_command":
+      return `command:${event.payload.trigger_id}`;
+  }
+}
+
+/**
+ * Runs queued events through the matching handler, at most once each.
+ * Shared by the processor Lambda and DLQ replays so both handle an event
+ * the same way.
+ */
+export class EventProcessorService {
+  constructor(
+    private eventHandlerService: EventHandlerService,
+    private commandHandlerService: CommandHandlerService,
+    private actionHandlerService: ActionHandlerService,
+    private idempotencyService: IdempotencyService
+  ) {}
+
+  /**
+   * Handles one queued event
+   * @param event - Queued event envelope
+   * @param deadline - Epoch ms by which the event must be handled
+   * @returns True if the handler ran, false if the event was a duplicate
+   * @throws Handler errors, so the queue can retry the event
+   */
+  async process(event: QueuedEvent, deadline?: number): Promise<boolean> {
+    const key = queuedEventKey(event);
+
+    switch (event.kind) {
+      case "app_mention":
+        return this.idempotencyService.runOnce(
+          key,
+          (attempt) =>
+            this.eventHandlerService.handleAppMention(
+              event.payload,
+              deadline,
+              attempt
+            ),
+          event.eventId
+        );
+      case "direct_message":
+        return this.idempotencyService.runOnce(
+          key,
+          (attempt) =>
+            this.eventHandlerService.handleDirectMessage(
+              event.payload,
+              deadline,
+              attempt
+            ),
+          event.eventId
+        );
+      case "message_change":
+        return this.idempotencyService.runOnce(
+          key,
+          () =>
+            this.eventHandlerService.handleMessageChange(
+              event.payload,
+              deadline
+            ),
+          event.eventId
+        );
+      case "reaction":
+        return this.idempotencyService.runOnce(
+          key,
+          () => this.eventHandlerService.handleReaction(event.payload),
+          event.eventId
+        );
+      case "block_action":
+        // Refusals are reported to the user; a failed redraw is not worth a retry
+        return this.idempotencyService.runOnce(key, () =>
+          this.actionHandlerService.handleBlockAction(event.payload)
+        );
+      case "slash_command":
+        // Command errors are reported to the user, so there is nothing to retry
+        return this.idempotencyService.runOnce(key, () =>
+          this.commandHandlerService.handleCommand(event.payload, deadline)
+        );
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { SQS } from "@aws-sdk/client-sqs";
+import {
+  AppMentionEvent,
+  BlockAction,
+  ButtonAction,
+  FileShareMessageEvent,
+  GenericMessageEvent,
+  MessageChangedEvent,
+  MessageDeletedEvent,
+  ReactionAddedEvent,
+  ReactionRemovedEvent,
+  SlashCommand,
+} from "@slack/bolt";
+import logger from "../logger";
+
+/**
+ * A message a user sent the bot in a direct message, with or without files
+ */
+export type DirectMessageEvent = GenericMessageEvent | FileShareMessageEvent;
+
+/**
+ * Picks out messages users send the bot in DMs, skipping edits, bot
+ * messages (including Garçon's own replies) and other subtypes
+ * @param event - Any message event
+ */
+export function isDirectMessage(event: {
+  channel_type?: string;
+  subtype?: string;
+  bot_id?: string;
+}): event is DirectMessageEvent {
+  return (
+    event.channel_type === "im" &&
+    (event.subtype === undefined || event.subtype === "file_share") &&
+    !event.bot_id
+  );
+}
+
+/**
+ * Message placed on the events queue by the receiver Lambda
+ */
+export interface QueuedAppMention {
+  kind: "app_mention";
+  /** Slack's event_id from the event envelope */
+  eventId?: string;
+  enqueuedAt: string;
+  payload: AppMentionEvent;
+}
+
+/**
+ * A /garcon slash command, acknowledged by the receiver and run later
+ */
+export interface QueuedSlashCommand {
+  kind: "slash_command";
+  enqueuedAt: string;
+  payload: SlashCommand;
+}
+
+/**
+ * An edited or deleted message, which may change a thread's orders
+ */
+export interface QueuedMessageChange {
+  kind: "message_change";
+  eventId?: string;
+  enqueuedAt: string;
+  payload: MessageChangedEvent | MessageDeletedEvent;
+}
+
+/**
+ * A click on an order button, acknowledged by the receiver and run later
+ */
+export interface QueuedBlockAction {
+  kind: "block_action";
+  enqueuedAt: string;
+  payload: BlockAction<ButtonAction>;
+}
+
+/**
+ * A reaction added or removed, which may record a payment
+ */
+export interface QueuedReaction {
+  kind: "reaction";
+  eventId?: string;
+  enqueuedAt: string;
+  payload: ReactionAddedEvent | ReactionRemovedEvent;
+}
+
+/**
+ * A message sent to the bot in a DM
+ */
+export interface QueuedDirectMessage {
+  kind: "direct_message";
+  eventId?: string;
+  enqueuedAt: string;
+  payload: DirectMessageEvent;
+}
+
+export type QueuedEvent =
+  | QueuedAppMention
+  | QueuedDirectMessage
+  | QueuedSlashCommand
+  | QueuedMessageChange
+  | QueuedBlockAction
+  | QueuedReaction;
+
+/**
+ * Parses a queue message body. Bodies enqueued before the envelope was
+ * introduced are the raw Slack event and are still accepted.
+ * @param body - Raw SQS message body
+ * @returns Parsed event, or null if the body is not a supported event
+ */
+export function parseQueuedEvent(body: string): QueuedEvent | null {
+  const parsed = JSON.parse(body);
+
+  if (parsed?.kind === "app_mention" && parsed.payload) {
+    return parsed as QueuedAppMention;
+  }
+
+  if (parsed?.kind === "direct_message" && parsed.payload) {
+    return parsed as QueuedDirectMessage;
+  }
+
+  if (parsed?.kind === "slash_command" && parsed.payload) {
+    return parsed as QueuedSlashCommand;
+  }
+
+  if (parsed?.kind === "message_change" && parsed.payload) {
+    return parsed as QueuedMessageChange;
+  }
+
+  if (parsed?.kind === "block_action" && parsed.payload) {
+    return parsed as QueuedBlockAction;
+  }
+
+  if (parsed?.kind === "reaction" && parsed.payload) {
+    return parsed as QueuedReaction;
+  }
+
+  if (parsed?.type === "app_mention") {
+    return {
+      kind: "app_mention",
+      enqueuedAt: new Date().toISOString(),
+      payload: parsed as AppMentionEvent,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Service for handing Slack events from the receiver to the processor
+ */
+export class EventQueueService {
+  private sqs = new SQS();
+
+  constructor(private queueUrl: string) {}
+
+  /**
+   * Enqueues an event for asynchronous processing
+   * @param event - Event envelope to enqueue
+   */
+  async enqueue(event: QueuedEvent): Promise<void> {
+    await this.sqs.sendMessage({
+      QueueUrl: this.queueUrl,
+      MessageBody: JSON.stringify(event),
+    });
+    logger.info("Event enqueued", { kind: event.kind });
+  }
+}
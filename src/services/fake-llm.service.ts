@@ -0,0 +1,112 @@
+import { readFileSync } from "node:fs";
+import logger from "../logger";
+import { GenerateRequest, LlmProvider } from "./llm-provider";
+
+/**
+ * A scripted reply. The first unused entry whose pattern matches the
+ * request is returned; entries without a pattern match anything.
+ */
+export interface ScriptedResponse {
+  /** Regular expression tested against the system prompt and last message */
+  match?: string;
+  /** Reply text, or a value serialized as JSON */
+  response: unknown;
+  /** Keep the entry for later requests instead of consuming it */
+  repeat?: boolean;
+}
+
+/**
+ * Deterministic provider for tests and offline development. Replays
+ * scripted responses and records every request it receives.
+ */
+export class FakeLlmService implements LlmProvider {
+  readonly name = "fake";
+  readonly requests: GenerateRequest[] = [];
+  private script: ScriptedResponse[];
+
+  constructor(script: ScriptedResponse[] = []) {
+    this.script = [...script];
+  }
+
+  /**
+   * Loads a script from a JSON file containing an array of ScriptedResponse
+   * @param filePath - Path to the script file
+   * @returns Provider replaying the script
+   */
+  static fromFile(filePath: string): FakeLlmService {
+    const script = JSON.parse(readFileSync(filePath, "utf-8"));
+    if (!Array.isArray(script)) {
+      throw new Error(`Fake LLM script must be a JSON array: ${filePath}`);
+    }
+    return new FakeLlmService(script as ScriptedResponse[]);
+  }
+
+  /**
+   * Returns the next matching scripted response. Without a match, text
+   * requests echo the last message and structured requests get "{}".
+   * @param request - Messages, system prompt and generation options
+   * @returns Scripted or default response text
+   */
+  async generate(request: GenerateRequest): Promise<string> {
+    this.requests.push(request);
+
+    const lastMessage = request.messages[request.messages.length - 1];
+    const haystack = `${request.systemPrompt}\n${lastMessage?.content ?? ""}`;
+    const index = this.script.findIndex(
+      (entry) => !entry.match || new RegExp(entry.match).test(haystack)
+    );
+
+    if (index === -1) {
+      logger.debug("Fake LLM has no scripted response; using default");
+      return request.options?.responseSchema
+        ? "{}"
+        : `Echo: ${lastMessage?.content ?? ""}`;
+    }
+
+    const entry = this.script[index];
+    if (!entry.repeat) this.script.splice(index, 1);
+
+    return typeof entry.response === "string"
+      ? entry.response
+      : JSON.stringify(entry.response);
+  }
+}
+
+/**
+ * Passes requests to a real provider and keeps its responses as a script
+ * FakeLlmService can replay. Each response is matched by the first line of
+ * its system prompt, so replies and structured calls replay independently.
+ */
+export class RecordingLlmService implements LlmProvider {
+  readonly script: ScriptedResponse[] = [];
+
+  constructor(private provider: LlmProvider) {}
+
+  get name(): string {
+    return `${this.provider.name} (recording)`;
+  }
+
+  /**
+   * Generates a completion with the wrapped provider and records it
+   * @param request - Messages, system prompt and generation options
+   * @returns The provider's response text
+   */
+  async generate(request: GenerateRequest): Promise<string> {
+    const text = await this.provider.generate(request);
+    const firstLine = request.systemPrompt.split("\n")[0];
+
+    let response: unknown = text;
+    if (request.options?.responseSchema) {
+      try {
+        response = JSON.parse(text);
+      } catch {
+        // Kept as text so the replay fails the same way
+      }
+    }
+    this.script.push({
+      match: `^${firstLine.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`,
+      response,
+    });
+    return text;
+  }
+}
@@ -0,0 +1,194 @@
+import { KnownBlock } from "@slack/bolt";
+import { SlackAttachment, SlackMessage, SlackService } from "./slack.service";
+import { normalizeSlackText } from "./slack-text";
+import { preferredName, UserProfile } from "./user-directory.service";
+
+/**
+ * A message in the fake workspace
+ */
+export interface FakeSlackMessage {
+  channel: string;
+  ts: string;
+  /** Parent message ts; unset for top-level messages */
+  threadTs?: string;
+  user: string;
+  /** Raw Slack text, with <@U123> mentions and &amp; escapes */
+  text: string;
+  attachments?: SlackAttachment[];
+}
+
+/**
+ * Offline stand-in for SlackService, used by the thread replay harness.
+ * Serves messages added with addMessage() and keeps everything the bot
+ * posts, so handlers run end to end without a workspace.
+ */
+export class FakeSlackService extends SlackService {
+  /** Every message in the workspace, including the bot's, in posting order */
+  readonly messages: FakeSlackMessage[] = [];
+  /** Ephemeral messages, which Slack never returns as history */
+  readonly ephemerals: FakeSlackMessage[] = [];
+  private profiles: Map<string, UserProfile>;
+
+  /**
+   * @param botId - User ID the bot posts as
+   * @param users - Profiles of everyone in the workspace
+   * @param workspaceId - Team ID personas are resolved for
+   */
+  constructor(
+    private botId: string,
+    users: UserProfile[],
+    private workspaceId = "T0FAKE"
+  ) {
+    super("xoxb-fake");
+    this.profiles = new Map(users.map((user) => [user.id, user]));
+  }
+
+  /**
+   * Adds a message as if a user had posted it
+   * @param message - Message to add
+   */
+  addMessage(message: FakeSlackMessage): void {
+    this.messages.push(message);
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to look up; the bot user ID is given to the constructor
+  }
+
+  getBotUserId(): string {
+    return this.botId;
+  }
+
+  getTeamId(): string | undefined {
+    return this.workspaceId;
+  }
+
+  async getChannelCreator(): Promise<string | undefined> {
+    return undefined;
+  }
+
+  async getUserInfo(userId: string): Promise<UserProfile | null> {
+    return this.profiles.get(userId) ?? null;
+  }
+
+  async getUserInfoBatch(userIds: string[]): Promise<Map<string, UserProfile>> {
+    const found = new Map<string, UserProfile>();
+    for (const userId of userIds) {
+      const profile = this.profiles.get(userId);
+      if (profile) found.set(userId, profile);
+    }
+    return found;
+  }
+
+  async fetchThreadMessages(
+    channel: string,
+    threadTs: string,
+    signal?: AbortSignal
+  ): Promise<SlackMessage[]> {
+    signal?.throwIfAborted();
+    return this.toThreadMessages(
+      this.messages.filter(
+        (msg) =>
+          msg.channel === channel &&
+          (msg.ts === threadTs || msg.threadTs === threadTs)
+      )
+    );
+  }
+
+  async fetchDirectMessages(
+    channel: string,
+    signal?: AbortSignal
+  ): Promise<SlackMessage[]> {
+    signal?.throwIfAborted();
+    return this.toThreadMessages(
+      this.messages.filter((msg) => msg.channel === channel && !msg.threadTs)
+    );
+  }
+
+  /**
+   * Posts as the bot. Blocks are dropped; the text is their fallback.
+   */
+  async postMessage(
+    channel: string,
+    text: string,
+    threadTs?: string,
+    _blocks?: KnownBlock[]
+  ): Promise<string | undefined> {
+    const ts = this.nextTs(channel);
+    this.messages.push({ channel, ts, threadTs, user: this.botId, text });
+    return ts;
+  }
+
+  /**
+   * @throws {Error} If the message does not exist, as Slack would
+   */
+  async updateMessage(
+    channel: string,
+    ts: string,
+    text: string
+  ): Promise<void> {
+    const message = this.messages.find(
+      (msg) => msg.channel === channel && msg.ts === ts
+    );
+    if (!message) throw new Error("message_not_found");
+    message.text = text;
+  }
+
+  async addReaction(): Promise<void> {
+    // Reactions only show progress; nothing reads them back
+  }
+
+  async removeReaction(): Promise<void> {
+    // See addReaction()
+  }
+
+  async postEphemeral(
+    channel: string,
+    user: string,
+    text: string,
+    threadTs?: string
+  ): Promise<void> {
+    this.ephemerals.push({
+      channel,
+      ts: this.nextTs(channel),
+      threadTs,
+      user,
+      text,
+    });
+  }
+
+  /**
+   * Resolves names and mentions the way SlackService does for real history
+   */
+  private toThreadMessages(messages: FakeSlackMessage[]): SlackMessage[] {
+    const userNames = new Map(
+      [...this.profiles].map(([id, profile]) => [id, preferredName(profile)])
+    );
+
+    return [...messages]
+      .sort((a, b) => Number(a.ts) - Number(b.ts))
+      .map((msg) => ({
+        text: normalizeSlackText(msg.text, {
+          userNames,
+          botUserId: this.botId,
+        }),
+        user: msg.user,
+        userName: userNames.get(msg.user),
+        ts: msg.ts,
+        attachments: msg.attachments,
+      }));
+  }
+
+  /**
+   * Timestamp just after the channel's newest message, so bot replies land
+   * between the messages they answer and the next ones
+   */
+  private nextTs(channel: string): string {
+    const timestamps = this.messages
+      .filter((msg) => msg.channel === channel)
+      .map((msg) => Number(msg.ts));
+    const latest =
+      timestamps.length > 0 ? Math.max(...timestamps) : Date.now() / 1000;
+    return (latest + 0.000001).toFixed(6);
+  }
+}
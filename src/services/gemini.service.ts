@@ -1,40 +1,43 @@
-import { GoogleGenAI, Part } from "@google/genai";
-import { readFile } from "node:fs/promises";
-import { join } from "node:path";
+import {
+  Content,
+  FunctionCall,
+  GenerateContentConfig,
+  GoogleGenAI,
+  Part,
+} from "@google/genai";
 import logger from "../logger";
+import {
+  formatAuthor,
+  GenerateRequest,
+  LlmProvider,
+  Message,
+  PartialTextHandler,
+  ToolDefinition,
+} from "./llm-provider";
+import { classifyHttpError, RetryPolicy } from "./retry";
 
-export interface Base64Image {
-  data: string;
-  mimeType: string;
-}
-
-export interface Message {
-  role: "user" | "model";
-  content: string;
-  userName?: string;
-  images?: Base64Image[];
-}
-
-/**
- * Minimal typed shape for errors returned by the GenAI SDK or HTTP layer.
- */
-interface ModelError {
-  code?: string | number;
-  status?: number | string;
-  response?: { status?: number };
-  message?: string;
-}
+/** Upper bound on model/tool round trips for one answer */
+const MAX_TOOL_ROUNDS = 6;
 
 /**
  * Service for interacting with Gemini AI
  */
-export class GeminiService {
+export class GeminiService implements LlmProvider {
+  readonly name = "gemini";
   private ai: GoogleGenAI;
   private modelName: string;
-  private systemPrompt?: string;
   private fallbackModels: string[];
 
-  constructor(apiKey: string, modelName: string) {
+  /**
+   * @param apiKey - Gemini API key
+   * @param modelName - Preferred model; GEMINI_FALLBACK_MODELS are tried next
+   * @param retryPolicy - Backoff for transient errors, applied per model
+   */
+  constructor(
+    apiKey: string,
+    modelName: string,
+    private retryPolicy: RetryPolicy = new RetryPolicy()
+  ) {
     this.ai = new GoogleGenAI({ apiKey });
     this.modelName = modelName;
     // Optional comma-separated fallback models from env var
@@ -45,13 +48,45 @@ export class GeminiService {
   }
 
   /**
-   * Generates a response based on the conversation context
-   * @param messages - Array of messages representing the conversation thread
+   * Generates a completion for the conversation
+   * @param request - Messages, system prompt and generation options
    * @returns Promise resolving to the AI-generated response
    */
-  async generateResponse(messages: Message[]): Promise<string> {
-    const systemPrompt = await this.getSystemPrompt();
-    const parts = await this.buildContentParts(messages);
+  async generate(request: GenerateRequest): Promise<string> {
+    const { parts, config, tools } = await this.prepareRequest(request);
+    if (tools.length > 0) return this.generateWithTools(parts, config, tools);
+    return this.generateWithFallback(parts, config);
+  }
+
+  /**
+   * Generates a completion, reporting the text as it streams in
+   * @param request - Messages, system prompt and generation options
+   * @param onPartial - Called with the accumulated text after each chunk
+   * @returns Promise resolving to the complete response
+   */
+  async generateStream(
+    request: GenerateRequest,
+    onPartial: PartialTextHandler
+  ): Promise<string> {
+    const { parts, config, tools } = await this.prepareRequest(request);
+    if (tools.length > 0) {
+      // Tool rounds can't be shown as they happen; report the answer once
+      const text = await this.generateWithTools(parts, config, tools);
+      await onPartial(text);
+      return text;
+    }
+    return this.generateWithFallback(parts, config, onPartial);
+  }
+
+  /**
+   * Converts a provider-neutral request into Gemini parts and config
+   */
+  private async prepareRequest(request: GenerateRequest): Promise<{
+    parts: Part[];
+    config: GenerateContentConfig;
+    tools: ToolDefinition[];
+  }> {
+    const parts = await this.buildContentParts(request.messages);
 
     const totalParts = parts.length;
     const imageParts = parts.filter((p) => "inlineData" in p).length;
@@ -60,45 +95,180 @@ export class GeminiService {
       totalParts,
       imageParts,
       textParts: totalParts - imageParts,
+      structured: Boolean(request.options?.responseSchema),
     });
 
-    const modelsToTry = [this.modelName, ...this.fallbackModels];
+    const config: GenerateContentConfig = {
+      systemInstruction: request.systemPrompt,
+      temperature: request.options?.temperature,
+      abortSignal: request.options?.signal,
+    };
+    if (request.options?.responseSchema) {
+      config.responseMimeType = "application/json";
+      config.responseSchema = request.options.responseSchema;
+    }
 
-    function isTransientModelError(err: unknown): boolean {
-      if (!err) return false;
-      const e = err as ModelError;
-      // Only treat explicit HTTP 503 (Service Unavailable) as transient.
-      if (e.response && typeof e.response.status === "number") {
-        return e.response.status === 503;
-      }
-      if (typeof e.status === "number") return e.status === 503;
-      if (typeof e.code === "number") return e.code === 503;
-      if (typeof e.code === "string") return e.code === "503";
-      return false;
+    const tools = request.options?.tools ?? [];
+    if (tools.length > 0) {
+      config.tools = [
+        {
+          functionDeclarations: tools.map(
+            ({ name, description, parameters }) => ({
+              name,
+              description,
+              parameters,
+            })
+          ),
+        },
+      ];
     }
 
-    let lastError: unknown = null;
-    for (const model of modelsToTry) {
-      try {
-        logger.info("Attempting Gemini model", { model });
-        const res = await this.ai.models.generateContent({
+    return { parts, config, tools };
+  }
+
+  /**
+   * Lets the model call tools until it gives a final answer. Each round is
+   * a separate generateContent call with the same model fallback.
+   * @param parts - Content parts of the conversation
+   * @param config - Generation config including the tool declarations
+   * @param tools - Tools to run when the model calls them
+   * @returns Final response text
+   */
+  private async generateWithTools(
+    parts: Part[],
+    config: GenerateContentConfig,
+    tools: ToolDefinition[]
+  ): Promise<string> {
+    const contents: Content[] = [{ role: "user", parts }];
+    const toolsByName = new Map(tools.map((tool) => [tool.name, tool]));
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      const response = await this.withModelFallback(
+        (model) => this.ai.models.generateContent({ model, contents, config }),
+        false,
+        config.abortSignal
+      );
+      const calls = response.functionCalls ?? [];
+      if (calls.length === 0) return response.text ?? "";
+
+      const modelContent = response.candidates?.[0]?.content;
+      if (modelContent) contents.push(modelContent);
+      contents.push({
+        role: "user",
+        parts: await Promise.all(
+          calls.map((call) => this.runTool(call, toolsByName))
+        ),
+      });
+    }
+
+    logger.warn("Gemini tool rounds exhausted; answering without tools", {
+      rounds: MAX_TOOL_ROUNDS,
+    });
+    const response = await this.withModelFallback(
+      (model) =>
+        this.ai.models.generateContent({
           model,
-          contents: parts,
-          config: {
-            systemInstruction: systemPrompt,
-          },
-        });
-        const text = res.text ?? "";
+          contents,
+          config: { ...config, tools: undefined },
+        }),
+      false,
+      config.abortSignal
+    );
+    return response.text ?? "";
+  }
+
+  /**
+   * Runs one function call and wraps the result for the model. Failures are
+   * returned as an error result rather than thrown, so the model can retry.
+   */
+  private async runTool(
+    call: FunctionCall,
+    toolsByName: Map<string, ToolDefinition>
+  ): Promise<Part> {
+    const tool = call.name ? toolsByName.get(call.name) : undefined;
+    let response: Record<string, unknown>;
+
+    if (!tool) {
+      response = { error: `Unknown tool: ${call.name}` };
+    } else {
+      try {
+        response = { output: await tool.execute(call.args ?? {}) };
+        logger.info("Tool call completed", { tool: call.name });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        response = { error: message };
+        logger.warn("Tool call failed", { tool: call.name, error: message });
+      }
+    }
+
+    return { functionResponse: { id: call.id, name: call.name, response } };
+  }
+
+  /**
+   * Calls generateContent on the primary model, falling through the
+   * configured fallback models on transient errors
+   * @param parts - Content parts to send
+   * @param config - Generation config for the request
+   * @param onPartial - When given, the response is streamed to it
+   * @returns Response text
+   */
+  private async generateWithFallback(
+    parts: Part[],
+    config: GenerateContentConfig,
+    onPartial?: PartialTextHandler
+  ): Promise<string> {
+    return this.withModelFallback(
+      async (model) => {
+        const text = onPartial
+          ? await this.streamContent(model, parts, config, onPartial)
+          : ((
+              await this.ai.models.generateContent({
+                model,
+                contents: parts,
+                config,
+              })
+            ).text ?? "");
         logger.debug("Gemini response received", {
           responseLength: text.length,
           responsePreview: text.substring(0, 300),
           usedModel: model,
         });
         return text;
+      },
+      Boolean(onPartial),
+      config.abortSignal
+    );
+  }
+
+  /**
+   * Runs a model call on the primary model, then on each fallback model
+   * while the failures are transient. Each model is retried with backoff
+   * before moving on.
+   * @param call - Performs the request against the given model
+   * @param streaming - Logged with each attempt
+   * @param signal - Request deadline; stops retries and fallbacks
+   * @returns Result of the first successful call
+   */
+  private async withModelFallback<T>(
+    call: (model: string) => Promise<T>,
+    streaming: boolean,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const modelsToTry = [this.modelName, ...this.fallbackModels];
+
+    let lastError: unknown = null;
+    for (const model of modelsToTry) {
+      try {
+        logger.info("Attempting Gemini model", { model, streaming });
+        return await this.retryPolicy.run(
+          `gemini ${model}`,
+          () => call(model),
+          classifyHttpError,
+          signal
+        );
       } catch (err) {
         lastError = err;
-        logger.warn("Gemini model failed", { model, error: err });
-        if (!isTransientModelError(err)) {
+        if (!classifyHttpError(err) || signal?.aborted) {
           // Non-transient: don't attempt other models
           logger.error("Gemini failure is non-transient; aborting", {
             model,
@@ -107,14 +277,11 @@ export class GeminiService {
           throw err;
         }
 
-        // transient -> try next model immediately (no backoff to avoid extra Lambda time/cost)
-        logger.info(
-          "Transient Gemini error (503); trying next model immediately",
-          {
-            model,
-          }
-        );
-        continue;
+        // Retries on this model are used up; the next one may have capacity
+        logger.warn("Gemini model kept failing; trying next model", {
+          model,
+          error: err,
+        });
       }
     }
 
@@ -126,7 +293,31 @@ export class GeminiService {
   }
 
   /**
-   * Builds content parts from messages, including text and images
+   * Streams a response from one model, accumulating the chunks
+   */
+  private async streamContent(
+    model: string,
+    parts: Part[],
+    config: GenerateContentConfig,
+    onPartial: PartialTextHandler
+  ): Promise<string> {
+    const stream = await this.ai.models.generateContentStream({
+      model,
+      contents: parts,
+      config,
+    });
+
+    let text = "";
+    for await (const chunk of stream) {
+      text += chunk.text ?? "";
+      await onPartial(text);
+    }
+    return text;
+  }
+
+  /**
+   * Builds content parts from messages, including text, images and
+   * documents
    * @param messages - Array of messages to convert
    * @returns Array of content parts
    */
@@ -134,7 +325,7 @@ export class GeminiService {
     const parts: Part[] = [];
 
     for (const msg of messages) {
-      const role = msg.role === "user" ? msg.userName || "User" : "Garçon";
+      const role = formatAuthor(msg);
       parts.push({ text: `${role}: ${msg.content}` });
 
       if (msg.images && msg.images.length > 0) {
@@ -152,22 +343,18 @@ export class GeminiService {
           });
         }
       }
+
+      for (const doc of msg.documents ?? []) {
+        parts.push({ text: `[Attached file: ${doc.name}]` });
+        parts.push({
+          inlineData: {
+            data: doc.data,
+            mimeType: doc.mimeType,
+          },
+        });
+      }
     }
 
     return parts;
   }
-
-  /**
-   * Gets or loads the system prompt
-   * @returns System prompt string
-   */
-  private async getSystemPrompt(): Promise<string> {
-    if (!this.systemPrompt) {
-      this.systemPrompt = await readFile(
-        join(__dirname, "..", "..", "system_prompt.txt"),
-        "utf-8"
-      );
-    }
-    return this.systemPrompt;
-  }
 }
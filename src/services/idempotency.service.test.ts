@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MemoryStore } from "../storage";
+import {
+  IdempotencyRecord,
+  IdempotencyService,
+  messageEventKey,
+} from "./idempotency.service";
+
+function setup(): {
+  store: MemoryStore<IdempotencyRecord>;
+  service: IdempotencyService;
+} {
+  const store = new MemoryStore<IdempotencyRecord>();
+  return { store, service: new IdempotencyService(store) };
+}
+
+const key = messageEventKey({ channel: "C1", ts: "1700000000.000100" });
+
+describe("IdempotencyService.runOnce", () => {
+  it("runs an event once and skips redeliveries", async () => {
+    const { service } = setup();
+    let runs = 0;
+
+    assert.equal(await service.runOnce(key, async () => void runs++), true);
+    assert.equal(await service.runOnce(key, async () => void runs++), false);
+    assert.equal(runs, 1);
+    assert.equal((await service.getRecord(key))?.status, "completed");
+  });
+
+  it("skips an event that is still in flight", async () => {
+    const { service } = setup();
+    let release = (): void => {};
+    const first = service.runOnce(
+      key,
+      () => new Promise<void>((resolve) => (release = resolve))
+    );
+
+    assert.equal(await service.runOnce(key, async () => {}), false);
+    release();
+    assert.equal(await first, true);
+  });
+
+  it("retries a failed event with its placeholder reply", async () => {
+    const { service } = setup();
+
+    await assert.rejects(
+      service.runOnce(key, async (attempt) => {
+        await attempt.setPlaceholder("1700000000.000200");
+        throw new Error("model down");
+      }),
+      /model down/
+    );
+    const failed = await service.getRecord(key);
+    assert.equal(failed?.status, "failed");
+    assert.equal(failed?.error, "model down");
+
+    let placeholderTs: string | undefined;
+    assert.equal(
+      await service.runOnce(key, async (attempt) => {
+        placeholderTs = attempt.placeholderTs;
+      }),
+      true
+    );
+    assert.equal(placeholderTs, "1700000000.000200");
+    assert.equal((await service.getRecord(key))?.status, "completed");
+  });
+
+  it("lets only one concurrent redelivery retry a failed event", async () => {
+    const { store, service } = setup();
+    await store.set(key, {
+      status: "failed",
+      startedAt: "2026-01-01T00:00:00.000Z",
+    });
+    let runs = 0;
+
+    const results = await Promise.all([
+      service.runOnce(key, async () => void runs++),
+      service.runOnce(key, async () => void runs++),
+    ]);
+
+    assert.deepEqual(results.sort(), [false, true]);
+    assert.equal(runs, 1);
+  });
+});
@@ -0,0 +1,175 @@
+import logger from "../logger";
+import { KeyValueStore } from "../storage";
+
+export type EventStatus = "in_flight" | "completed" | "failed";
+
+export interface IdempotencyRecord {
+  status: EventStatus;
+  eventId?: string;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+  /** Placeholder reply posted for the event, reused when it is retried */
+  placeholderTs?: string;
+}
+
+/**
+ * One attempt at handling an event, as seen by its handler
+ */
+export interface EventAttempt {
+  /** Placeholder reply posted by an earlier, failed attempt */
+  placeholderTs?: string;
+  /**
+   * Remembers the placeholder reply so a retry edits it instead of posting
+   * another one
+   */
+  setPlaceholder(ts: string): Promise<void>;
+}
+
+export interface IdempotencyOptions {
+  /** How long an in-flight claim blocks duplicates before it's considered abandoned */
+  leaseSeconds: number;
+  /** How long completed events are remembered */
+  retentionSeconds: number;
+}
+
+const DEFAULT_OPTIONS: IdempotencyOptions = {
+  // Longer than the processor Lambda timeout so a crashed run eventually unblocks
+  leaseSeconds: 360,
+  retentionSeconds: 24 * 60 * 60,
+};
+
+/**
+ * Builds the idempotency key for a Slack message event. Slack retries and
+ * SQS redeliveries carry the same channel and ts, so the key is stable
+ * across both.
+ * @param event - Event with a channel and message timestamp
+ * @returns Idempotency key
+ */
+export function messageEventKey(event: {
+  channel: string;
+  ts: string;
+}): string {
+  return `${event.channel}:${event.ts}`;
+}
+
+/**
+ * Ensures each Slack event is handled at most once. Events that are
+ * in flight or already completed are skipped; failed events may be retried.
+ */
+export class IdempotencyService {
+  private options: IdempotencyOptions;
+
+  constructor(
+    private store: KeyValueStore<IdempotencyRecord>,
+    options: Partial<IdempotencyOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Runs the handler unless the event was already processed or is in flight
+   * @param key - Idempotency key, see messageEventKey()
+   * @param handler - Work to perform for the event
+   * @param eventId - Optional Slack event_id recorded for debugging
+   * @returns True if the handler ran, false if the event was skipped
+   */
+  async runOnce(
+    key: string,
+    handler: (attempt: EventAttempt) => Promise<void>,
+    eventId?: string
+  ): Promise<boolean> {
+    const claimed = await this.claim(key, eventId);
+    if (!claimed) return false;
+
+    try {
+      await handler({
+        placeholderTs: claimed.placeholderTs,
+        setPlaceholder: async (ts) => {
+          claimed.placeholderTs = ts;
+          await this.store.set(key, claimed, this.options.leaseSeconds);
+        },
+      });
+    } catch (error) {
+      await this.store.set(
+        key,
+        {
+          status: "failed",
+          eventId,
+          startedAt: claimed.startedAt,
+          finishedAt: new Date().toISOString(),
+          error: error instanceof Error ? error.message : String(error),
+          placeholderTs: claimed.placeholderTs,
+        },
+        this.options.retentionSeconds
+      );
+      throw error;
+    }
+
+    await this.store.set(
+      key,
+      {
+        status: "completed",
+        eventId,
+        startedAt: claimed.startedAt,
+        finishedAt: new Date().toISOString(),
+        placeholderTs: claimed.placeholderTs,
+      },
+      this.options.retentionSeconds
+    );
+    return true;
+  }
+
+  /**
+   * Retrieves the recorded outcome for an event
+   * @param key - Idempotency key
+   * @returns Stored record, or undefined if the event is unknown
+   */
+  async getRecord(key: string): Promise<IdempotencyRecord | undefined> {
+    return this.store.get(key);
+  }
+
+  /**
+   * Claims an event for processing. Failed events are re-claimed so SQS
+   * redeliveries can retry them; the re-claim only succeeds if the failed
+   * record is unchanged, so concurrent redeliveries can't both run.
+   */
+  private async claim(
+    key: string,
+    eventId?: string
+  ): Promise<IdempotencyRecord | null> {
+    const record: IdempotencyRecord = {
+      status: "in_flight",
+      eventId,
+      startedAt: new Date().toISOString(),
+    };
+
+    if (await this.store.setIfAbsent(key, record, this.options.leaseSeconds)) {
+      return record;
+    }
+
+    const existing = await this.store.get(key);
+    if (existing?.status === "failed") {
+      const retry = { ...record, placeholderTs: existing.placeholderTs };
+      if (
+        await this.store.compareAndSet(
+          key,
+          existing,
+          retry,
+          this.options.leaseSeconds
+        )
+      ) {
+        logger.info("Retrying previously failed event", { key, eventId });
+        return retry;
+      }
+    }
+
+    logger.info("Skipping duplicate event", {
+      key,
+      eventId,
+      status: existing?.status,
+      startedAt: existing?.startedAt,
+    });
+    return null;
+  }
+}
@@ -1,8 +1,12 @@
+import heicConvert from "heic-convert";
+import sharp from "sharp";
 import logger from "../logger";
+import { SkippedAttachment } from "./slack.service";
 
 export interface BlobImage {
   blob: Blob;
   mimeType: string;
+  name?: string;
 }
 
 export interface Base64Image {
@@ -10,36 +14,166 @@ export interface Base64Image {
   mimeType: string;
 }
 
+export interface NormalizedImages {
+  images: Base64Image[];
+  skipped: SkippedAttachment[];
+}
+
 /**
- * Service for processing images
+ * Bytes still available for images in a single model request. Shared by
+ * every message of a conversation; see createBudget().
+ */
+export interface ImageBudget {
+  remainingBytes: number;
+}
+
+export interface ImageProcessingOptions {
+  /** Longest edge of a normalized image, in pixels */
+  maxDimension: number;
+  /** Total normalized image bytes allowed per model request */
+  maxRequestBytes: number;
+  /** JPEG quality used when re-encoding */
+  jpegQuality: number;
+}
+
+const DEFAULT_OPTIONS: ImageProcessingOptions = {
+  // Larger images are downscaled by the model anyway; receipts stay legible
+  maxDimension: 1568,
+  maxRequestBytes: 10 * 1024 * 1024,
+  jpegQuality: 85,
+};
+
+/** Formats we can decode; everything else is skipped and reported */
+const SUPPORTED_MIME_TYPES = new Set([
+  "image/jpeg",
+  "image/jpg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "image/tiff",
+  "image/avif",
+  "image/heic",
+  "image/heif",
+]);
+
+/** HEIC/HEIF (iPhone photos) need a separate decoder before sharp */
+const HEIC_MIME_TYPES = new Set(["image/heic", "image/heif"]);
+
+/**
+ * Service for processing images. Images are normalized before they are
+ * sent to a model: HEIC is converted, large images are downscaled, EXIF
+ * metadata (including location) is stripped and output is JPEG, or PNG for
+ * images with transparency.
  */
 export class ImageProcessingService {
+  private options: ImageProcessingOptions;
+
+  constructor(options: Partial<ImageProcessingOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
   /**
-   * Converts a Blob to base64 encoded string
-   * @param blob - Blob to convert
-   * @returns Base64 encoded string
+   * Creates a fresh byte budget for one model request
+   * @returns Budget to pass to normalizeImages() for every message
    */
-  async convertBlobToBase64(blob: Blob): Promise<string> {
-    const arrayBuffer = await blob.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    return buffer.toString("base64");
+  createBudget(): ImageBudget {
+    return { remainingBytes: this.options.maxRequestBytes };
   }
 
   /**
-   * Converts an array of blob images to base64 encoded images
+   * Normalizes an array of blob images into base64 encoded images. Images
+   * that cannot be decoded or do not fit the budget are returned as skipped.
    * @param blobImages - Array of blob images
-   * @returns Array of base64 encoded images
+   * @param budget - Request byte budget, shared across messages
+   * @returns Normalized images and the images that were skipped
    */
-  async convertBlobsToBase64(blobImages: BlobImage[]): Promise<Base64Image[]> {
-    logger.info("Converting blob images to base64", {
-      count: blobImages.length,
-    });
-
-    return Promise.all(
-      blobImages.map(async (img) => ({
-        data: await this.convertBlobToBase64(img.blob),
-        mimeType: img.mimeType,
-      }))
-    );
+  async normalizeImages(
+    blobImages: BlobImage[],
+    budget: ImageBudget
+  ): Promise<NormalizedImages> {
+    logger.info("Normalizing images", { count: blobImages.length });
+
+    const result: NormalizedImages = { images: [], skipped: [] };
+
+    for (const img of blobImages) {
+      const name = img.name || "image";
+      const mimeType = img.mimeType.toLowerCase();
+
+      if (!SUPPORTED_MIME_TYPES.has(mimeType)) {
+        result.skipped.push({
+          name,
+          reason: `unsupported format (${img.mimeType})`,
+        });
+        continue;
+      }
+
+      let normalized: { data: Buffer; mimeType: string };
+      try {
+        normalized = await this.normalize(img.blob, mimeType);
+      } catch (error) {
+        logger.warn("Failed to normalize image", {
+          name,
+          mimeType: img.mimeType,
+          error,
+        });
+        result.skipped.push({ name, reason: "could not be read" });
+        continue;
+      }
+
+      if (normalized.data.length > budget.remainingBytes) {
+        result.skipped.push({
+          name,
+          reason: "too many images in this thread to send them all",
+        });
+        continue;
+      }
+
+      budget.remainingBytes -= normalized.data.length;
+      result.images.push({
+        data: normalized.data.toString("base64"),
+        mimeType: normalized.mimeType,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Decodes, orients, downscales and re-encodes a single image
+   */
+  private async normalize(
+    blob: Blob,
+    mimeType: string
+  ): Promise<{ data: Buffer; mimeType: string }> {
+    let input = Buffer.from(await blob.arrayBuffer());
+
+    if (HEIC_MIME_TYPES.has(mimeType)) {
+      input = Buffer.from(
+        await heicConvert({ buffer: input, format: "JPEG", quality: 0.92 })
+      );
+    }
+
+    // rotate() applies the EXIF orientation before metadata is dropped
+    const image = sharp(input)
+      .rotate()
+      .resize(this.options.maxDimension, this.options.maxDimension, {
+        fit: "inside",
+        withoutEnlargement: true,
+      });
+
+    const { hasAlpha } = await image.metadata();
+    if (hasAlpha) {
+      return {
+        data: await image.png({ compressionLevel: 9 }).toBuffer(),
+        mimeType: "image/png",
+      };
+    }
+
+    return {
+      data: await image
+        .jpeg({ quality: this.options.jpegQuality, mozjpeg: true })
+        .toBuffer(),
+      mimeType: "image/jpeg",
+    };
   }
 }
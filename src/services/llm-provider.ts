@@ -0,0 +1,103 @@
+import { Schema } from "@google/genai";
+
+export interface Base64Image {
+  data: string;
+  mimeType: string;
+}
+
+/**
+ * A PDF or plain-text file attached to a message
+ */
+export interface Base64Document {
+  data: string;
+  mimeType: string;
+  name: string;
+}
+
+export interface Message {
+  role: "user" | "model";
+  content: string;
+  userName?: string;
+  userId?: string;
+  ts?: string;
+  images?: Base64Image[];
+  documents?: Base64Document[];
+}
+
+/**
+ * A function the model may call while answering, e.g. for exact arithmetic.
+ * Providers without function calling answer without tools.
+ */
+export interface ToolDefinition {
+  name: string;
+  /** Tells the model when and how to use the tool */
+  description: string;
+  /** Argument schema */
+  parameters: Schema;
+  /**
+   * Runs the tool. Thrown errors are reported back to the model so it can
+   * correct its call.
+   * @param args - Arguments chosen by the model
+   * @returns JSON-serializable result
+   */
+  execute(args: Record<string, unknown>): unknown | Promise<unknown>;
+}
+
+export interface GenerateOptions {
+  /** Constrains the output to JSON matching this schema */
+  responseSchema?: Schema;
+  temperature?: number;
+  /** Functions the model may call before giving its final answer */
+  tools?: ToolDefinition[];
+  /** Aborts the request, and any retries, at the request deadline */
+  signal?: AbortSignal;
+}
+
+export interface GenerateRequest {
+  messages: Message[];
+  systemPrompt: string;
+  options?: GenerateOptions;
+}
+
+/**
+ * Receives the text generated so far while a response streams in
+ */
+export type PartialTextHandler = (text: string) => void | Promise<void>;
+
+/**
+ * A chat model backend. Implementations turn the conversation (including
+ * images and documents) into a single text completion.
+ */
+export interface LlmProvider {
+  /** Provider name used in logs */
+  readonly name: string;
+
+  /**
+   * Generates a completion for the conversation
+   * @param request - Messages, system prompt and generation options
+   * @returns Generated text (JSON text when a response schema is given)
+   */
+  generate(request: GenerateRequest): Promise<string>;
+
+  /**
+   * Optionally streams the completion, reporting partial text as it arrives
+   * @param request - Messages, system prompt and generation options
+   * @param onPartial - Called with the accumulated text after each chunk
+   * @returns Complete generated text
+   */
+  generateStream?(
+    request: GenerateRequest,
+    onPartial: PartialTextHandler
+  ): Promise<string>;
+}
+
+/**
+ * Renders a message author the way every provider presents it to the model
+ * @param message - Conversation message
+ * @returns Author label such as "Mona (U123)" or "Garçon"
+ */
+export function formatAuthor(message: Message): string {
+  if (message.role === "model") return "Garçon";
+  const name = message.userName || "User";
+  return message.userId ? `${name} (${message.userId})` : name;
+}
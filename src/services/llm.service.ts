@@ -0,0 +1,100 @@
+import { Schema } from "@google/genai";
+import logger from "../logger";
+import {
+  LlmProvider,
+  Message,
+  PartialTextHandler,
+  ToolDefinition,
+} from "./llm-provider";
+
+/**
+ * High-level model operations used by the bot, independent of which
+ * provider backs them
+ */
+export class LlmService {
+  /**
+   * @param provider - Model backend
+   * @param tools - Tools offered when replying; providers without tool
+   * support ignore them
+   */
+  constructor(
+    private provider: LlmProvider,
+    private tools: ToolDefinition[] = []
+  ) {}
+
+  /**
+   * Generates a response based on the conversation context
+   * @param messages - Array of messages representing the conversation thread
+   * @param systemPrompt - Persona prompt, see PromptRegistryService
+   * @param context - Optional authoritative context appended to the system prompt
+   * @param onPartial - Streams partial text when the provider supports it
+   * @param signal - Request deadline
+   * @returns Promise resolving to the AI-generated response
+   */
+  async generateResponse(
+    messages: Message[],
+    systemPrompt: string,
+    context: string[] = [],
+    onPartial?: PartialTextHandler,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const streaming = Boolean(onPartial && this.provider.generateStream);
+
+    logger.debug("LLM request prepared", {
+      provider: this.provider.name,
+      messageCount: messages.length,
+      contextBlocks: context.length,
+      streaming,
+      tools: this.tools.length,
+    });
+
+    const request = {
+      messages,
+      systemPrompt: [systemPrompt, ...context].join("\n\n"),
+      options: {
+        tools: this.tools.length > 0 ? this.tools : undefined,
+        signal,
+      },
+    };
+
+    if (onPartial && this.provider.generateStream) {
+      return this.provider.generateStream(request, onPartial);
+    }
+    return this.provider.generate(request);
+  }
+
+  /**
+   * Generates JSON output constrained by a response schema
+   * @param messages - Array of messages representing the conversation thread
+   * @param instruction - System instruction describing what to extract
+   * @param schema - Response schema the output must follow
+   * @param signal - Request deadline
+   * @returns Parsed JSON value; callers are responsible for validating it
+   * @throws {Error} If the model does not return valid JSON
+   */
+  async generateStructured(
+    messages: Message[],
+    instruction: string,
+    schema: Schema,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    const text = await this.provider.generate({
+      messages,
+      systemPrompt: instruction,
+      options: { responseSchema: schema, signal },
+    });
+
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      logger.error("LLM returned invalid JSON", {
+        provider: this.provider.name,
+        responsePreview: text.substring(0, 300),
+        error,
+      });
+      throw new Error(
+        "The model returned invalid JSON for a structured request"
+      );
+    }
+  }
+}
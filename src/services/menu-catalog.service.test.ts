@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MemoryStore } from "../storage";
+import { MenuCatalogService, RestaurantMenu } from "./menu-catalog.service";
+
+const service = new MenuCatalogService(new MemoryStore<RestaurantMenu>());
+
+const menu: RestaurantMenu = {
+  restaurant: "Abou Tarek",
+  currency: "EGP",
+  source: "abou-tarek.yaml",
+  items: [
+    { name: "Koshary Large", price: 45, aliases: ["كشري كبير"] },
+    { name: "Koshary Small", price: 30, aliases: ["كشري صغير"] },
+    { name: "Taameya Sandwich", price: 10 },
+    { name: "Beef Shawarma", price: 90 },
+    { name: "Chicken Shawarma", price: 80 },
+    { name: "Rice Pudding", price: 20 },
+  ],
+};
+
+function matched(name: string): string | undefined {
+  return service.matchItem(name, menu)?.name;
+}
+
+describe("MenuCatalogService.matchItem", () => {
+  it("matches names regardless of case, accents and punctuation", () => {
+    assert.equal(matched("rice pudding"), "Rice Pudding");
+    assert.equal(matched("Rice-Pudding!"), "Rice Pudding");
+    assert.equal(matched("  BEEF   shawarma "), "Beef Shawarma");
+  });
+
+  it("matches aliases, including Arabic with diacritics", () => {
+    assert.equal(matched("كشري كبير"), "Koshary Large");
+    assert.equal(matched("كُشَري صغير"), "Koshary Small");
+  });
+
+  it("tolerates Franko and misspellings", () => {
+    assert.equal(matched("ta3meya sandwich"), "Taameya Sandwich");
+    assert.equal(matched("koshari large"), "Koshary Large");
+  });
+
+  it("leaves orders too vague to pick one entry unmatched", () => {
+    assert.equal(matched("shawarma"), undefined);
+  });
+
+  it("leaves items that aren't on the menu unmatched", () => {
+    assert.equal(matched("sushi platter"), undefined);
+  });
+});
+
+describe("MenuCatalogService.priceItems", () => {
+  it("prices matches and keeps what was ordered", () => {
+    assert.deepEqual(
+      service.priceItems(
+        [
+          { name: "koshari large", quantity: 2, notes: "extra sauce" },
+          { name: "sushi platter", quantity: 1 },
+        ],
+        menu
+      ),
+      [
+        {
+          name: "Koshary Large",
+          quantity: 2,
+          notes: "extra sauce",
+          price: 45,
+          orderedAs: "koshari large",
+        },
+        { name: "sushi platter", quantity: 1, notes: undefined },
+      ]
+    );
+  });
+
+  it("restores the ordered names when the menu is gone", () => {
+    const priced = service.priceItems(
+      [{ name: "koshari large", quantity: 1 }],
+      menu
+    );
+    assert.deepEqual(service.priceItems(priced, null), [
+      { name: "koshari large", quantity: 1, notes: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,370 @@
+import { readdir, readFile } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { parse as parseYaml } from "yaml";
+import logger from "../logger";
+import { KeyValueStore } from "../storage";
+import { bestSimilarity, normalizeName } from "./menu-matching";
+import { OrderItem } from "./order-session.service";
+
+export interface MenuItem {
+  name: string;
+  price: number;
+  /** Other names people use for the item, e.g. Arabic or Franko spellings */
+  aliases?: string[];
+  category?: string;
+}
+
+export interface RestaurantMenu {
+  restaurant: string;
+  aliases?: string[];
+  currency: string;
+  city?: string;
+  items: MenuItem[];
+  /** File the menu was loaded from, so answers can cite it */
+  source: string;
+}
+
+export interface MenuMatch {
+  restaurant: string;
+  currency: string;
+  item: MenuItem;
+  source: string;
+  /** How closely the item matched the query, from 0 to 1 */
+  score: number;
+}
+
+/**
+ * Result of adding or updating a menu, e.g. from a posted menu photo
+ */
+export interface SavedMenu {
+  menu: RestaurantMenu;
+  added: number;
+  updated: number;
+}
+
+export interface MenuCatalogOptions {
+  /** Directory holding one menu per .json, .yaml or .yml file */
+  dir: string;
+}
+
+const DEFAULT_OPTIONS: MenuCatalogOptions = {
+  dir: join(__dirname, "..", "..", "menus"),
+};
+
+const MENU_EXTENSIONS = new Set([".json", ".yaml", ".yml"]);
+
+/** Most item matches returned for one lookup */
+const MAX_MATCHES = 5;
+
+/** Minimum score for a restaurant name to count as a catalog entry */
+const RESTAURANT_MATCH_THRESHOLD = 0.8;
+
+/** Minimum score for an ordered item to be replaced by a menu entry */
+const ITEM_MATCH_THRESHOLD = 0.75;
+
+/** Minimum score for items suggested to the model */
+const SUGGESTION_THRESHOLD = 0.5;
+
+/**
+ * Best matches closer than this are ambiguous ("shawarma" on a menu with
+ * beef and chicken shawarma) and are left for people to clarify
+ */
+const AMBIGUITY_MARGIN = 0.02;
+
+type Raw = Record<string, unknown>;
+
+function isObject(value: unknown): value is Raw {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const strings = value.filter(
+    (entry): entry is string => typeof entry === "string" && entry !== ""
+  );
+  return strings.length > 0 ? strings : undefined;
+}
+
+/**
+ * Validates a parsed menu file
+ * @param raw - Parsed JSON or YAML
+ * @param source - File name, for citations and errors
+ * @returns Menu with invalid items dropped
+ * @throws {Error} If the file has no restaurant name or currency
+ */
+export function parseMenu(raw: unknown, source: string): RestaurantMenu {
+  if (!isObject(raw)) throw new Error(`${source}: expected an object`);
+  if (typeof raw.restaurant !== "string" || !raw.restaurant) {
+    throw new Error(`${source}: missing restaurant name`);
+  }
+  if (typeof raw.currency !== "string" || !raw.currency) {
+    throw new Error(`${source}: missing currency`);
+  }
+
+  const items = (Array.isArray(raw.items) ? raw.items : [])
+    .filter(isObject)
+    .filter(
+      (item) =>
+        typeof item.name === "string" &&
+        item.name !== "" &&
+        Number.isFinite(Number(item.price))
+    )
+    .map((item): MenuItem => ({
+      name: item.name as string,
+      price: Number(item.price),
+      aliases: stringList(item.aliases),
+      category: typeof item.category === "string" ? item.category : undefined,
+    }));
+
+  return {
+    restaurant: raw.restaurant,
+    aliases: stringList(raw.aliases),
+    currency: raw.currency.toUpperCase(),
+    city: typeof raw.city === "string" ? raw.city : undefined,
+    items,
+    source,
+  };
+}
+
+function namesOf(entry: MenuItem): string[] {
+  return [entry.name, ...(entry.aliases ?? [])];
+}
+
+function restaurantNamesOf(menu: RestaurantMenu): string[] {
+  return [menu.restaurant, ...(menu.aliases ?? [])];
+}
+
+function mergeAliases(
+  ...lists: Array<string[] | undefined>
+): string[] | undefined {
+  const aliases = [...new Set(lists.flatMap((list) => list ?? []))];
+  return aliases.length > 0 ? aliases : undefined;
+}
+
+/**
+ * Restaurant menus the model and the order aggregation price items from.
+ * Menus come from JSON or YAML files, read once on first use, and from
+ * menu photos posted to the bot, which are kept in the store and win over
+ * a file for the same restaurant.
+ */
+export class MenuCatalogService {
+  private options: MenuCatalogOptions;
+  private fileMenus?: Promise<RestaurantMenu[]>;
+
+  constructor(
+    private store: KeyValueStore<RestaurantMenu>,
+    options: Partial<MenuCatalogOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Lists the restaurants in the catalog
+   * @returns Restaurant names
+   */
+  async listRestaurants(): Promise<string[]> {
+    return (await this.load()).map((menu) => menu.restaurant);
+  }
+
+  /**
+   * Finds a restaurant by name or alias, in any spelling
+   * @param name - Restaurant name as written in the thread
+   * @returns Closest menu, or null if no restaurant is close enough
+   */
+  async findRestaurant(name: string): Promise<RestaurantMenu | null> {
+    let best: RestaurantMenu | null = null;
+    let bestScore = RESTAURANT_MATCH_THRESHOLD;
+    for (const menu of await this.load()) {
+      const score = bestSimilarity(name, restaurantNamesOf(menu));
+      if (score >= bestScore) {
+        best = menu;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Looks up menu items by name or alias, in any spelling
+   * @param item - Item name as written in the thread
+   * @param restaurant - Optional restaurant to search; all menus otherwise
+   * @returns Best matches, closest first
+   */
+  async findItems(item: string, restaurant?: string): Promise<MenuMatch[]> {
+    let menus = await this.load();
+    if (restaurant) {
+      const menu = await this.findRestaurant(restaurant);
+      menus = menu ? [menu] : [];
+    }
+
+    return menus
+      .flatMap((menu) =>
+        menu.items.map((menuItem): MenuMatch => ({
+          restaurant: menu.restaurant,
+          currency: menu.currency,
+          item: menuItem,
+          source: menu.source,
+          score:
+            Math.round(bestSimilarity(item, namesOf(menuItem)) * 100) / 100,
+        }))
+      )
+      .filter((match) => match.score >= SUGGESTION_THRESHOLD)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_MATCHES);
+  }
+
+  /**
+   * Matches an ordered item to a single menu entry
+   * @param name - Item as ordered, e.g. "koshari kbeer" or "كشري"
+   * @param menu - Restaurant menu to match against
+   * @returns Menu entry, or null if nothing is close enough or the best
+   * candidates are too close to call
+   */
+  matchItem(name: string, menu: RestaurantMenu): MenuItem | null {
+    const ranked = menu.items
+      .map((item) => ({ item, score: bestSimilarity(name, namesOf(item)) }))
+      .sort((a, b) => b.score - a.score);
+
+    const [best, runnerUp] = ranked;
+    if (!best || best.score < ITEM_MATCH_THRESHOLD) return null;
+    if (
+      best.score < 1 &&
+      runnerUp &&
+      best.score - runnerUp.score < AMBIGUITY_MARGIN
+    ) {
+      return null;
+    }
+    return best.item;
+  }
+
+  /**
+   * Renames ordered items to their menu entries and attaches menu prices.
+   * Safe to run repeatedly: the original wording is kept in orderedAs.
+   * @param items - Items as stored on a participant
+   * @param menu - Thread's restaurant menu, or null to clear menu prices
+   * @returns New item list
+   */
+  priceItems(items: OrderItem[], menu: RestaurantMenu | null): OrderItem[] {
+    return items.map((item) => {
+      const ordered = item.orderedAs ?? item.name;
+      const match = menu && this.matchItem(ordered, menu);
+      if (!match) {
+        return { name: ordered, quantity: item.quantity, notes: item.notes };
+      }
+      return {
+        name: match.name,
+        quantity: item.quantity,
+        notes: item.notes,
+        price: match.price,
+        orderedAs:
+          normalizeName(ordered) === normalizeName(match.name)
+            ? undefined
+            : ordered,
+      };
+    });
+  }
+
+  /**
+   * Adds a menu, or updates the restaurant's existing one: items with the
+   * same name get the new price, new items are added and the rest kept, so
+   * posting one page of a menu doesn't drop the others
+   * @param menu - Menu read from a photo or file
+   * @returns Saved menu and how many items were added or updated
+   */
+  async saveMenu(menu: RestaurantMenu): Promise<SavedMenu> {
+    const existing = await this.findRestaurant(menu.restaurant);
+    const items = existing ? [...existing.items] : [];
+    let added = 0;
+    let updated = 0;
+
+    for (const item of menu.items) {
+      const key = normalizeName(item.name);
+      const index = items.findIndex((known) =>
+        namesOf(known).some((name) => normalizeName(name) === key)
+      );
+      if (index === -1) {
+        items.push(item);
+        added++;
+      } else {
+        items[index] = {
+          ...items[index],
+          price: item.price,
+          aliases: mergeAliases(items[index].aliases, item.aliases),
+          category: item.category ?? items[index].category,
+        };
+        updated++;
+      }
+    }
+
+    const saved: RestaurantMenu = {
+      restaurant: existing?.restaurant ?? menu.restaurant,
+      aliases: mergeAliases(
+        existing?.aliases,
+        menu.aliases,
+        existing &&
+          normalizeName(existing.restaurant) !== normalizeName(menu.restaurant)
+          ? [menu.restaurant]
+          : undefined
+      ),
+      currency: menu.currency,
+      city: menu.city ?? existing?.city,
+      items,
+      source: menu.source,
+    };
+    await this.store.set(normalizeName(saved.restaurant), saved);
+
+    logger.info("Menu saved", {
+      restaurant: saved.restaurant,
+      added,
+      updated,
+      items: items.length,
+    });
+    return { menu: saved, added, updated };
+  }
+
+  private async load(): Promise<RestaurantMenu[]> {
+    this.fileMenus ??= this.readMenus();
+    const posted = (await this.store.entries()).map(([, menu]) => menu);
+    const postedNames = new Set(
+      posted.map((menu) => normalizeName(menu.restaurant))
+    );
+
+    return [
+      ...(await this.fileMenus).filter(
+        (menu) => !postedNames.has(normalizeName(menu.restaurant))
+      ),
+      ...posted,
+    ];
+  }
+
+  private async readMenus(): Promise<RestaurantMenu[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.options.dir);
+    } catch {
+      logger.info("No menu files found", { dir: this.options.dir });
+      return [];
+    }
+
+    const menus: RestaurantMenu[] = [];
+    for (const file of files.sort()) {
+      const extension = extname(file).toLowerCase();
+      if (!MENU_EXTENSIONS.has(extension)) continue;
+
+      try {
+        const text = await readFile(join(this.options.dir, file), "utf-8");
+        const raw = extension === ".json" ? JSON.parse(text) : parseYaml(text);
+        menus.push(parseMenu(raw, file));
+      } catch (error) {
+        // One broken file shouldn't take the whole catalog down
+        logger.warn("Skipping invalid menu file", { file, error });
+      }
+    }
+
+    logger.info("Menu files loaded", {
+      restaurants: menus.length,
+      items: menus.reduce((sum, menu) => sum + menu.items.length, 0),
+    });
+    return menus;
+  }
+}
@@ -0,0 +1,99 @@
+import logger from "../logger";
+import {
+  MENU_EXTRACTION_INSTRUCTION,
+  menuExtractionSchema,
+  parseMenuExtraction,
+} from "../prompts/menu-extraction";
+import { Message } from "./llm-provider";
+import { LlmService } from "./llm.service";
+import { MenuCatalogService, SavedMenu } from "./menu-catalog.service";
+
+/**
+ * Outcome of reading a posted menu
+ */
+export type MenuImport =
+  | { kind: "saved"; saved: SavedMenu }
+  | { kind: "not-menu" }
+  /** A menu, but nothing says which restaurant it belongs to */
+  | { kind: "unnamed"; items: number };
+
+/**
+ * Adds menus posted to the bot as photos or files to the catalog
+ */
+export class MenuImportService {
+  constructor(
+    private llmService: LlmService,
+    private menuCatalogService: MenuCatalogService
+  ) {}
+
+  /**
+   * Reads the menu attached to a message and saves it
+   * @param message - Message carrying the menu images or files
+   * @param note - What the poster asked, which may name the restaurant;
+   * defaults to the message's own text
+   * @param signal - Request deadline
+   * @returns What was saved, or why nothing was
+   */
+  async importFromMessage(
+    message: Message,
+    note: string = message.content,
+    signal?: AbortSignal
+  ): Promise<MenuImport> {
+    const extraction = parseMenuExtraction(
+      await this.llmService.generateStructured(
+        [
+          {
+            ...message,
+            content: `Menu photo(s) or file(s) posted in the thread. The poster wrote: ${note}`,
+          },
+        ],
+        MENU_EXTRACTION_INSTRUCTION,
+        menuExtractionSchema,
+        signal
+      )
+    );
+
+    if (!extraction.isMenu) {
+      logger.info("Attachments are not a menu", {
+        userName: message.userName,
+      });
+      return { kind: "not-menu" };
+    }
+    if (!extraction.restaurant) {
+      return { kind: "unnamed", items: extraction.items.length };
+    }
+
+    const saved = await this.menuCatalogService.saveMenu({
+      restaurant: extraction.restaurant,
+      currency: extraction.currency,
+      city: extraction.city,
+      items: extraction.items,
+      source: `menu photo posted by ${message.userName ?? "a teammate"} on ${new Date().toISOString().slice(0, 10)}`,
+    });
+    return { kind: "saved", saved };
+  }
+
+  /**
+   * Describes an import for the thread
+   * @param result - Result of importFromMessage()
+   * @returns Slack mrkdwn reply
+   */
+  formatResult(result: MenuImport): string {
+    switch (result.kind) {
+      case "saved": {
+        const { menu, added, updated } = result.saved;
+        const changes = [
+          added > 0 ? `${added} new` : "",
+          updated > 0 ? `${updated} updated` : "",
+        ]
+          .filter(Boolean)
+          .join(", ");
+        return `📋 Saved the *${menu.restaurant}* menu (${changes}; ${menu.items.length} items in ${menu.currency}). I'll use these prices when orders from ${menu.restaurant} come in.`;
+      }
+      case "unnamed":
+        return `📋 I can read ${result.items} items on this menu, but not which restaurant it's from. Mention me again with the name, e.g. "@Garçon menu for Abou Tarek".`;
+      case "not-menu":
+        return "🤔 That doesn't look like a menu to me.";
+    }
+  }
+}
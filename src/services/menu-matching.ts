@@ -0,0 +1,196 @@
+/**
+ * Name matching for menu items and restaurants as people actually type
+ * them in Cairo: English, Arabic, and Franko (Arabic in Latin letters with
+ * digits for sounds, e.g. "ta3meya").
+ */
+
+/** Arabic short vowels, hamza marks and tatweel, dropped before comparing */
+const ARABIC_MARKS = /[\u064b-\u0655\u0670\u0640]/g;
+
+/** Arabic letters as Egyptians would spell them in Latin letters */
+const ARABIC_TO_LATIN: Record<string, string> = {
+  ا: "a",
+  ب: "b",
+  ت: "t",
+  ث: "s",
+  ج: "g",
+  ح: "h",
+  خ: "kh",
+  د: "d",
+  ذ: "z",
+  ر: "r",
+  ز: "z",
+  س: "s",
+  ش: "sh",
+  ص: "s",
+  ض: "d",
+  ط: "t",
+  ظ: "z",
+  ع: "",
+  غ: "gh",
+  ف: "f",
+  ق: "k",
+  ك: "k",
+  ل: "l",
+  م: "m",
+  ن: "n",
+  ه: "h",
+  ة: "a",
+  و: "u",
+  ي: "i",
+  ء: "",
+};
+
+/** Franko digits standing in for Arabic sounds */
+const FRANKO_DIGITS: Record<string, string> = {
+  "2": "",
+  "3": "",
+  "5": "kh",
+  "6": "t",
+  "7": "h",
+  "8": "gh",
+  "9": "k",
+};
+
+/** Spelling variants folded together before vowels are dropped */
+const LATIN_FOLDS: Array<[RegExp, string]> = [
+  [/ch/g, "sh"],
+  [/ph/g, "f"],
+  [/th/g, "t"],
+  [/dh/g, "d"],
+  [/q/g, "k"],
+  [/c/g, "k"],
+  [/p/g, "b"],
+  [/v/g, "f"],
+  [/j/g, "g"],
+  [/x/g, "ks"],
+];
+
+/** Articles ignored when comparing ("el koshary", "الكشري") */
+const ARTICLES = new Set(["el", "al", "il", "the"]);
+
+/** Exact normalized names score 1; equal sound keys score just below */
+const KEY_MATCH_SCORE = 0.95;
+
+/**
+ * Lowercases and strips accents, Arabic diacritics and punctuation, and
+ * unifies Arabic letter variants (أ/إ/آ, ى) and Arabic-Indic digits, so
+ * "Koshary!" and "koshary" or "كُشري" and "كشري" compare equal
+ * @param text - Name as written
+ * @returns Normalized name, words separated by single spaces
+ */
+export function normalizeName(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(ARABIC_MARKS, "")
+    .replace(/ى/g, "ي")
+    .replace(/[\u0660-\u0669]/g, (digit) => String(digit.charCodeAt(0) - 0x660))
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Reduces one normalized word to its consonant skeleton, so spellings of
+ * the same sounds in either script meet: "koshary", "koshari" and "كشري"
+ * all become "kshr"
+ */
+function soundKey(word: string): string {
+  let latin = word.replace(/^ال(?=\S{2})/, "");
+  latin = [...latin].map((char) => ARABIC_TO_LATIN[char] ?? char).join("");
+  if (/\p{L}/u.test(latin)) {
+    latin = latin.replace(/[2-9]/g, (digit) => FRANKO_DIGITS[digit] ?? digit);
+  }
+  for (const [pattern, replacement] of LATIN_FOLDS) {
+    latin = latin.replace(pattern, replacement);
+  }
+
+  const consonants = latin.replace(/[aeiouwy]/g, "").replace(/(.)\1+/g, "$1");
+  // All-vowel words ("aya") keep their first letter rather than vanish
+  return consonants || latin.charAt(0);
+}
+
+/**
+ * Splits a name into the sound keys of its words, dropping articles
+ * @param name - Name as written
+ * @returns One key per word
+ */
+export function soundKeys(name: string): string[] {
+  return normalizeName(name)
+    .split(" ")
+    .filter((word) => word && !ARTICLES.has(word))
+    .map(soundKey)
+    .filter(Boolean);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** 1 for equal strings, falling towards 0 as edits pile up */
+function ratio(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+/**
+ * How well the words of the shorter name are covered by the longer one,
+ * discounted for the longer name's extra words ("fries" vs "french fries")
+ */
+function wordOverlap(a: string[], b: string[]): number {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length === 0) return 0;
+
+  const covered =
+    shorter.reduce(
+      (sum, word) =>
+        sum + Math.max(...longer.map((other) => ratio(word, other))),
+      0
+    ) / shorter.length;
+  return covered * (0.75 + (0.25 * shorter.length) / longer.length);
+}
+
+/**
+ * Scores how likely two names mean the same thing, across English, Arabic
+ * and Franko spellings
+ * @param a - Name as written, e.g. an ordered item
+ * @param b - Name to compare with, e.g. a menu entry
+ * @returns Score from 0 (unrelated) to 1 (same normalized name)
+ */
+export function similarity(a: string, b: string): number {
+  const normalizedA = normalizeName(a);
+  const normalizedB = normalizeName(b);
+  if (!normalizedA || !normalizedB) return 0;
+  if (normalizedA === normalizedB) return 1;
+
+  const keysA = soundKeys(a);
+  const keysB = soundKeys(b);
+  return Math.max(
+    ratio(normalizedA, normalizedB),
+    ratio(keysA.join(" "), keysB.join(" ")) * KEY_MATCH_SCORE,
+    wordOverlap(keysA, keysB) * KEY_MATCH_SCORE
+  );
+}
+
+/**
+ * Scores a name against an entry's name and aliases
+ * @param query - Name as written
+ * @param names - Entry's name followed by its aliases
+ * @returns Best score among the names
+ */
+export function bestSimilarity(query: string, names: string[]): number {
+  return Math.max(0, ...names.map((name) => similarity(query, name)));
+}
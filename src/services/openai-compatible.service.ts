@@ -0,0 +1,178 @@
+import { Schema } from "@google/genai";
+import logger from "../logger";
+import {
+  Base64Document,
+  formatAuthor,
+  GenerateRequest,
+  LlmProvider,
+  Message,
+} from "./llm-provider";
+import { HttpStatusError, RetryPolicy } from "./retry";
+
+type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ContentPart[];
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+/**
+ * Inlines an attached document as text. Chat completion servers have no
+ * common way to accept PDFs, so those are only mentioned by name.
+ * @param doc - Attached document
+ * @returns Text block describing the document
+ */
+function documentToText(doc: Base64Document): string {
+  if (doc.mimeType !== "text/plain") {
+    return `[Attached file "${doc.name}" (${doc.mimeType}) cannot be read by this model]`;
+  }
+  const content = Buffer.from(doc.data, "base64").toString("utf8");
+  return `[Attached file: ${doc.name}]\n${content}`;
+}
+
+/**
+ * Converts a Gemini-style schema (upper-case OpenAPI types) into the JSON
+ * Schema dialect expected by OpenAI-compatible servers
+ * @param schema - Gemini response schema
+ * @returns Equivalent JSON Schema object
+ */
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [
+        key,
+        toJsonSchema(value),
+      ])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+
+  return result;
+}
+
+/**
+ * LLM provider for any server exposing the OpenAI chat completions API
+ * (OpenAI, vLLM, Ollama, LM Studio, llama.cpp server, ...)
+ */
+export class OpenAiCompatibleService implements LlmProvider {
+  readonly name = "openai";
+
+  constructor(
+    private baseUrl: string,
+    private modelName: string,
+    private apiKey?: string,
+    private retryPolicy: RetryPolicy = new RetryPolicy()
+  ) {}
+
+  /**
+   * Generates a completion for the conversation
+   * @param request - Messages, system prompt and generation options
+   * @returns Promise resolving to the AI-generated response
+   */
+  async generate(request: GenerateRequest): Promise<string> {
+    const body: Record<string, unknown> = {
+      model: this.modelName,
+      messages: [
+        { role: "system", content: request.systemPrompt },
+        ...request.messages.map((msg) => this.toChatMessage(msg)),
+      ],
+    };
+    if (request.options?.temperature !== undefined) {
+      body.temperature = request.options.temperature;
+    }
+    if (request.options?.responseSchema) {
+      body.response_format = {
+        type: "json_schema",
+        json_schema: {
+          name: "response",
+          schema: toJsonSchema(request.options.responseSchema),
+        },
+      };
+    }
+
+    logger.info("Calling OpenAI-compatible model", {
+      baseUrl: this.baseUrl,
+      model: this.modelName,
+      messageCount: request.messages.length,
+    });
+
+    const result = await this.retryPolicy.run(
+      `openai ${this.modelName}`,
+      async () => {
+        const response = await fetch(
+          `${this.baseUrl.replace(/\/$/, "")}/chat/completions`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              ...(this.apiKey
+                ? { Authorization: `Bearer ${this.apiKey}` }
+                : {}),
+            },
+            body: JSON.stringify(body),
+            signal: request.options?.signal,
+          }
+        );
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          logger.error("OpenAI-compatible request failed", {
+            status: response.status,
+            errorPreview: errorText.substring(0, 300),
+          });
+          throw new HttpStatusError(
+            `Model request failed: ${response.status} ${response.statusText}`,
+            response.status,
+            response.headers
+          );
+        }
+
+        return (await response.json()) as ChatCompletionResponse;
+      },
+      undefined,
+      request.options?.signal
+    );
+    const text = result.choices?.[0]?.message?.content ?? "";
+    logger.debug("OpenAI-compatible response received", {
+      responseLength: text.length,
+      responsePreview: text.substring(0, 300),
+    });
+    return text;
+  }
+
+  private toChatMessage(msg: Message): ChatMessage {
+    const text = [
+      `${formatAuthor(msg)}: ${msg.content}`,
+      ...(msg.documents ?? []).map(documentToText),
+    ].join("\n\n");
+    const role = msg.role === "model" ? "assistant" : "user";
+
+    // Images are only allowed on user messages
+    if (role === "assistant" || !msg.images || msg.images.length === 0) {
+      return { role, content: text };
+    }
+
+    return {
+      role,
+      content: [
+        { type: "text", text },
+        ...msg.images.map((image): ContentPart => ({
+          type: "image_url",
+          image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+        })),
+      ],
+    };
+  }
+}
@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { KnownBlock } from "@slack/bolt";
+import { BillSplitService } from "./bill-split.service";
+import {
+  buildOrderSummaryBlocks,
+  buildReplyBlocks,
+  buildSplitBlocks,
+  ORDER_ACTION_PATTERN,
+} from "./order-blocks";
+import { OrderSession } from "./order-session.service";
+
+function sessionWith(count: number): OrderSession {
+  const participants = Array.from({ length: count }, (_, i) => ({
+    name: `Person ${i}`,
+    userId: `U${i}`,
+    items: [{ name: "Koshary", quantity: 1, price: 50 }],
+  }));
+  const session: OrderSession = {
+    channel: "C1",
+    threadTs: "1700000000.000100",
+    status: "open",
+    participants,
+    adjustments: [],
+    payer: { name: "Person 0", userId: "U0" },
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  };
+  session.split = new BillSplitService().split({
+    participants: participants.map((p) => ({
+      name: p.name,
+      items: [{ name: "Koshary", quantity: 1, unitPrice: 50 }],
+    })),
+  });
+  return session;
+}
+
+function actionIds(block: KnownBlock): string[] {
+  if (block.type !== "actions") return [];
+  return block.elements.flatMap((element) =>
+    "action_id" in element && element.action_id ? [element.action_id] : []
+  );
+}
+
+function assertValidMessage(blocks: KnownBlock[]): void {
+  assert.ok(blocks.length <= 50, `${blocks.length} blocks`);
+
+  const blockIds = blocks.flatMap((block) =>
+    block.block_id ? [block.block_id] : []
+  );
+  assert.equal(new Set(blockIds).size, blockIds.length, "repeated block_id");
+
+  for (const block of blocks) {
+    const ids = actionIds(block);
+    assert.equal(
+      new Set(ids).size,
+      ids.length,
+      `repeated action_id in ${block.block_id}: ${ids.join(", ")}`
+    );
+    for (const id of ids) assert.match(id, ORDER_ACTION_PATTERN);
+  }
+}
+
+describe("ORDER_ACTION_PATTERN", () => {
+  it("reads the action from plain and suffixed ids", () => {
+    assert.equal("order_paid".match(ORDER_ACTION_PATTERN)?.[1], "paid");
+    assert.equal("order_paid_12".match(ORDER_ACTION_PATTERN)?.[1], "paid");
+    assert.equal("order_confirm".match(ORDER_ACTION_PATTERN)?.[1], "confirm");
+    assert.doesNotMatch("order_refund", ORDER_ACTION_PATTERN);
+  });
+});
+
+describe("order blocks", () => {
+  for (const count of [1, 2, 24, 30, 60]) {
+    it(`renders ${count} participants without repeated ids`, () => {
+      const session = sessionWith(count);
+      const split = session.split!;
+
+      assertValidMessage(buildSplitBlocks(session, split));
+      assertValidMessage(buildOrderSummaryBlocks(session));
+      assertValidMessage(buildReplyBlocks(session, "Done!", split));
+      assertValidMessage(buildReplyBlocks(session, "Noted."));
+    });
+  }
+
+  it("gives everyone who owes a paid button, but not the payer", () => {
+    const session = sessionWith(3);
+    const ids = buildSplitBlocks(session, session.split!).flatMap(actionIds);
+
+    assert.deepEqual(ids, ["order_paid_0", "order_paid_1"]);
+  });
+
+  it("leaves shares nobody in the thread ordered out of payments", () => {
+    const session = sessionWith(2);
+    const split = new BillSplitService().split({
+      participants: [
+        {
+          name: "Person 1",
+          items: [{ name: "Koshary", quantity: 1, unitPrice: 50 }],
+        },
+        {
+          name: "Offline Orders",
+          items: [{ name: "Koshary", quantity: 1, unitPrice: 30 }],
+        },
+      ],
+      vatRate: 0,
+    });
+    const blocks = buildSplitBlocks(session, split);
+
+    assert.deepEqual(blocks.flatMap(actionIds), ["order_paid_0"]);
+    assert.match(JSON.stringify(blocks), /0\/1 paid • 50\.00 EGP outstanding/);
+  });
+
+  it("shows the adjustment to the printed total in the breakdown", () => {
+    const session = sessionWith(2);
+    const breakdown = (total?: number): string =>
+      JSON.stringify(
+        buildSplitBlocks(
+          session,
+          new BillSplitService().split({
+            participants: session.participants.map((p) => ({
+              name: p.name,
+              items: [{ name: "Koshary", quantity: 1, unitPrice: 50 }],
+            })),
+            vatRate: 0,
+            total,
+          })
+        ).find((block) => block.type === "context")
+      );
+
+    assert.match(breakdown(100.02), /Adjustment \+0\.02 EGP/);
+    assert.match(breakdown(99.99), /Adjustment -0\.01 EGP/);
+    assert.doesNotMatch(breakdown(), /Adjustment/);
+  });
+});
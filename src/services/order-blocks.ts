@@ -0,0 +1,352 @@
+import { Button, KnownBlock } from "@slack/bolt";
+import { SplitResult } from "./bill-split.service";
+import { OrderSession, Participant } from "./order-session.service";
+import { isPayer } from "./payment.service";
+
+/**
+ * Builds Block Kit messages for order summaries and bill splits from the
+ * saved session, with per-participant "confirmed", "change" and "paid"
+ * buttons. The payer's own share never gets a "paid" button. Plain-text
+ * fallbacks come from OrderSessionService.formatSummary() and
+ * BillSplitService.formatSplit().
+ */
+
+export type OrderAction = "confirm" | "change" | "paid";
+
+/**
+ * Matches the action_id of every order button. Buttons sharing an actions
+ * block carry a suffix, since Slack rejects repeated action_ids in a block.
+ */
+export const ORDER_ACTION_PATTERN = /^order_(confirm|change|paid)(?:_.+)?$/;
+
+/** Which message a button belongs to, so it can be re-rendered after a click */
+export type OrderView = "summary" | "split";
+
+export interface OrderActionValue {
+  view: OrderView;
+  participant: string;
+}
+
+/** Slack allows 50 blocks per message */
+const MAX_BLOCKS = 50;
+
+/** Header, status, divider and item totals around the participant rows */
+const SUMMARY_FRAME_BLOCKS = 4;
+
+/** Section text is limited to 3000 characters */
+const MAX_SECTION_TEXT = 3000;
+
+/** Actions blocks hold at most 25 elements */
+const BUTTONS_PER_ACTIONS_BLOCK = 25;
+
+/** Section blocks hold at most 10 fields: five name/amount rows */
+const SPLIT_ROWS_PER_SECTION = 5;
+
+/**
+ * Parses the value attached to an order button
+ * @param value - Button value
+ * @returns Parsed value, or null if the value is not an order button's
+ */
+export function parseOrderActionValue(
+  value: string | undefined
+): OrderActionValue | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value) as Partial<OrderActionValue>;
+    if (
+      (parsed.view === "summary" || parsed.view === "split") &&
+      typeof parsed.participant === "string"
+    ) {
+      return { view: parsed.view, participant: parsed.participant };
+    }
+  } catch {
+    // Not JSON; fall through
+  }
+  return null;
+}
+
+function text(value: string): KnownBlock {
+  return { type: "section", text: { type: "mrkdwn", text: value } };
+}
+
+function context(value: string): KnownBlock {
+  return { type: "context", elements: [{ type: "mrkdwn", text: value }] };
+}
+
+function statusBadges(
+  session: OrderSession,
+  participant: Participant | undefined
+): string {
+  const badges = [];
+  if (participant?.confirmedAt) badges.push("✅");
+  if (isPayer(session, participant)) badges.push("🧾 paid the bill");
+  else if (participant?.paidAt) badges.push("💸 paid");
+  return badges.length > 0 ? ` ${badges.join(" ")}` : "";
+}
+
+function button(
+  action: OrderAction,
+  label: string,
+  value: OrderActionValue,
+  style?: "primary" | "danger",
+  suffix?: string | number
+): Button {
+  return {
+    type: "button",
+    action_id:
+      suffix === undefined ? `order_${action}` : `order_${action}_${suffix}`,
+    text: { type: "plain_text", text: label, emoji: true },
+    value: JSON.stringify(value),
+    ...(style ? { style } : {}),
+  };
+}
+
+/**
+ * Buttons shown under a participant in the summary: confirm and change
+ * while orders are open, paid once there is a split to pay
+ */
+function participantActions(
+  session: OrderSession,
+  participant: Participant,
+  index: number
+): KnownBlock | null {
+  const value: OrderActionValue = {
+    view: "summary",
+    participant: participant.name,
+  };
+  const elements: Button[] = [];
+
+  if (session.status === "open") {
+    elements.push(
+      button(
+        "confirm",
+        participant.confirmedAt ? "✅ confirmed" : "✅ confirm",
+        value,
+        participant.confirmedAt ? undefined : "primary"
+      ),
+      button("change", "✏️ change", value)
+    );
+  }
+  if (session.split && !isPayer(session, participant)) {
+    elements.push(
+      button("paid", participant.paidAt ? "↩️ not paid" : "💸 paid", value)
+    );
+  }
+
+  if (elements.length === 0) return null;
+  return { type: "actions", block_id: `order_summary_${index}`, elements };
+}
+
+/**
+ * Renders the order list with one row and button set per participant.
+ * Participants past the block limit lose their buttons first, then their
+ * rows.
+ * @param session - Thread's order session
+ * @param interactive - Whether to include buttons (false for ephemeral copies)
+ * @param maxBlocks - Blocks the summary may use
+ * @returns Blocks for chat.postMessage / chat.update
+ */
+export function buildOrderSummaryBlocks(
+  session: OrderSession,
+  interactive = true,
+  maxBlocks = MAX_BLOCKS
+): KnownBlock[] {
+  const blocks: KnownBlock[] = [
+    {
+      type: "header",
+      text: { type: "plain_text", text: "📋 الطلبات - Orders", emoji: true },
+    },
+  ];
+
+  if (session.participants.length === 0) {
+    blocks.push(text("No orders recorded in this thread yet."));
+    return blocks;
+  }
+
+  const { participants } = session;
+  const confirmed = participants.filter((p) => p.confirmedAt).length;
+  blocks.push(
+    context(
+      `Status: *${session.status}* • ${confirmed}/${participants.length} confirmed`
+    )
+  );
+
+  // Every participant gets a row and buttons take the blocks left over;
+  // rows that don't fit at all are folded into one line
+  const rowBudget = Math.max(maxBlocks - SUMMARY_FRAME_BLOCKS, 1);
+  const shown =
+    participants.length > rowBudget ? rowBudget - 1 : participants.length;
+  const hidden = participants.slice(shown);
+  let spareBlocks = rowBudget - shown - (hidden.length > 0 ? 1 : 0);
+
+  participants.slice(0, shown).forEach((participant, index) => {
+    const items = participant.items.map((item) => {
+      const price =
+        item.price !== undefined
+          ? ` · ${item.price} ${session.menu?.currency ?? ""}`.trimEnd()
+          : "";
+      return `• ${item.name} ×${item.quantity}${price}${item.notes ? ` - _${item.notes}_` : ""}`;
+    });
+    blocks.push(
+      text(
+        `*${participant.name}*${statusBadges(session, participant)}\n${items.join("\n")}`
+      )
+    );
+
+    if (interactive && spareBlocks > 0) {
+      const actions = participantActions(session, participant, index);
+      if (actions) {
+        blocks.push(actions);
+        spareBlocks--;
+      }
+    }
+  });
+  if (hidden.length > 0) {
+    blocks.push(
+      text(
+        `…and ${hidden.length} more: ${hidden.map((p) => `${p.name}${statusBadges(session, p)}`).join(", ")}`
+      )
+    );
+  }
+
+  const totals = new Map<string, number>();
+  for (const item of participants.flatMap((p) => p.items)) {
+    totals.set(item.name, (totals.get(item.name) ?? 0) + item.quantity);
+  }
+  blocks.push({ type: "divider" });
+  blocks.push(
+    text(
+      [
+        "*📊 Summary by Item*",
+        ...[...totals].map(([name, quantity]) => `• ${name}: *${quantity}*`),
+      ].join("\n")
+    )
+  );
+
+  return blocks;
+}
+
+/**
+ * Renders a bill split as a name/amount table followed by a "paid" toggle
+ * per person
+ * @param session - Thread's order session, for payment status
+ * @param result - Computed split
+ * @returns Blocks for chat.postMessage / chat.update
+ */
+export function buildSplitBlocks(
+  session: OrderSession,
+  result: SplitResult
+): KnownBlock[] {
+  const money = (amount: number): string =>
+    `${amount.toFixed(2)} ${result.currency}`;
+  const participantFor = (name: string): Participant | undefined =>
+    session.participants.find(
+      (p) => p.name.trim().toLowerCase() === name.trim().toLowerCase()
+    );
+
+  const blocks: KnownBlock[] = [
+    {
+      type: "header",
+      text: { type: "plain_text", text: "💰 الحساب - Bill Split", emoji: true },
+    },
+  ];
+
+  for (let i = 0; i < result.shares.length; i += SPLIT_ROWS_PER_SECTION) {
+    const rows = result.shares.slice(i, i + SPLIT_ROWS_PER_SECTION);
+    blocks.push({
+      type: "section",
+      fields: rows.flatMap((share) => [
+        {
+          type: "mrkdwn" as const,
+          text: `*${share.name}*${statusBadges(session, participantFor(share.name))}`,
+        },
+        {
+          type: "mrkdwn" as const,
+          text: `${money(share.total)} (${share.percentage}%)${share.overridden ? " _manual_" : ""}`,
+        },
+      ]),
+    });
+  }
+
+  const breakdown = [
+    `Subtotal ${money(result.subtotal)}`,
+    ...(result.discount !== 0 ? [`Discount -${money(result.discount)}`] : []),
+    `Delivery ${money(result.delivery)} (split equally)`,
+    `Service ${money(result.service)}`,
+    `VAT ${money(result.vat)}`,
+    // Difference to the printed total, so the parts add up to it
+    ...(result.adjustment !== 0
+      ? [
+          `Adjustment ${result.adjustment > 0 ? "+" : ""}${money(result.adjustment)}`,
+        ]
+      : []),
+  ];
+  blocks.push(context(breakdown.join(" • ")));
+  blocks.push(text(`*Total: ${money(result.total)}*`));
+
+  // The payer's own share is already settled, and shares without an order
+  // in the thread (e.g. "Offline Orders") have nobody to mark them paid
+  const owing = result.shares.filter((share) => {
+    const participant = participantFor(share.name);
+    return participant !== undefined && !isPayer(session, participant);
+  });
+  const unpaid = owing.filter((share) => !participantFor(share.name)?.paidAt);
+  const outstanding = unpaid.reduce((sum, share) => sum + share.total, 0);
+  const owedTo = session.payer
+    ? ` to *${session.payer.name}*`
+    : " - who paid? `/garcon payer @name`";
+  blocks.push({ type: "divider" });
+  blocks.push(
+    context(
+      `💸 ${owing.length - unpaid.length}/${owing.length} paid • ${money(outstanding)} outstanding${owedTo}\nTap your name or react with ✅ once you've paid`
+    )
+  );
+
+  // One "paid" toggle per person, packed into as few rows as Slack allows
+  const paidButtons = owing.map((share, index) => {
+    const participant = participantFor(share.name);
+    return button(
+      "paid",
+      `${participant?.paidAt ? "↩️" : "💸"} ${share.name}`,
+      { view: "split", participant: share.name },
+      undefined,
+      index
+    );
+  });
+  for (let i = 0; i < paidButtons.length; i += BUTTONS_PER_ACTIONS_BLOCK) {
+    blocks.push({
+      type: "actions",
+      block_id: `order_split_${i}`,
+      elements: paidButtons.slice(i, i + BUTTONS_PER_ACTIONS_BLOCK),
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Renders a reply to a mention: Garçon's text, then the order summary and,
+ * when the reply carries a split, the split table. The split's "paid"
+ * toggles replace the summary's buttons.
+ * @param session - Thread's order session
+ * @param reply - Text written for the reply, without the split
+ * @param split - Split posted with the reply, if any
+ * @returns Blocks for chat.postMessage / chat.update
+ */
+export function buildReplyBlocks(
+  session: OrderSession,
+  reply: string,
+  split?: SplitResult
+): KnownBlock[] {
+  const blocks: KnownBlock[] = [];
+  for (let i = 0; i < reply.length; i += MAX_SECTION_TEXT) {
+    blocks.push(text(reply.slice(i, i + MAX_SECTION_TEXT)));
+  }
+
+  const splitBlocks = split ? buildSplitBlocks(session, split) : [];
+  const room = MAX_BLOCKS - blocks.length - splitBlocks.length;
+  if (session.participants.length > 0 && room > SUMMARY_FRAME_BLOCKS) {
+    blocks.push(...buildOrderSummaryBlocks(session, !split, room));
+  }
+  return [...blocks, ...splitBlocks];
+}
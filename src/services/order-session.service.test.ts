@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MemoryStore } from "../storage";
+import { MenuCatalogService, RestaurantMenu } from "./menu-catalog.service";
+import {
+  OrderItem,
+  OrderSession,
+  OrderSessionService,
+} from "./order-session.service";
+
+const service = new OrderSessionService(new MemoryStore<OrderSession>());
+const catalog = new MenuCatalogService(new MemoryStore<RestaurantMenu>());
+
+const menu: RestaurantMenu = {
+  restaurant: "Abou Tarek",
+  currency: "EGP",
+  source: "abou-tarek.yaml",
+  items: [
+    { name: "Koshary Large", price: 45, aliases: ["kushari kbir"] },
+    { name: "Rice Pudding", price: 20 },
+  ],
+};
+
+/** Items as the model reads them from the thread */
+function ordered(): OrderItem[] {
+  return [
+    { name: "kushari kbir", quantity: 2, notes: "extra da'ah" },
+    { name: "rice pudding", quantity: 1 },
+  ];
+}
+
+async function pricedSession(): Promise<OrderSession> {
+  const session = await service.getOrCreate("C1", "1700000000.000100", "U1");
+  session.participants = [
+    {
+      name: "Karim",
+      userId: "U1",
+      items: catalog.priceItems(ordered(), menu),
+      confirmedAt: "2026-01-01T10:00:00.000Z",
+      paidAt: "2026-01-01T11:00:00.000Z",
+      paidVia: "button",
+    },
+  ];
+  return session;
+}
+
+describe("OrderSessionService.carryOverStatus", () => {
+  it("keeps confirmations of priced orders read again unchanged", async () => {
+    const session = await pricedSession();
+    assert.equal(session.participants[0].items[0].name, "Koshary Large");
+
+    const previous = service.resetOrders(session);
+    session.participants = [{ name: "Karim", userId: "U1", items: ordered() }];
+    service.carryOverStatus(session, previous);
+
+    const [karim] = session.participants;
+    assert.equal(karim.confirmedAt, "2026-01-01T10:00:00.000Z");
+    assert.equal(karim.paidAt, "2026-01-01T11:00:00.000Z");
+    assert.equal(karim.paidVia, "button");
+  });
+
+  it("asks for a changed order to be confirmed again", async () => {
+    const session = await pricedSession();
+
+    const previous = service.resetOrders(session);
+    const items = ordered();
+    items[0].quantity = 3;
+    session.participants = [{ name: "Karim", userId: "U1", items }];
+    service.carryOverStatus(session, previous);
+
+    const [karim] = session.participants;
+    assert.equal(karim.confirmedAt, undefined);
+    assert.equal(karim.paidAt, "2026-01-01T11:00:00.000Z");
+  });
+});
+
+describe("OrderSessionService.applyUpdate", () => {
+  it("keeps the confirmation when a priced order is repeated", async () => {
+    const session = await pricedSession();
+
+    service.applyUpdate(session, {
+      participants: [{ name: "Karim", userId: "U1", items: ordered() }],
+      adjustments: [],
+      payments: [],
+    });
+
+    assert.equal(
+      session.participants[0].confirmedAt,
+      "2026-01-01T10:00:00.000Z"
+    );
+  });
+});
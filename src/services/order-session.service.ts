@@ -0,0 +1,483 @@
+import logger from "../logger";
+import { Receipt } from "../prompts/receipt-extraction";
+import { KeyValueStore } from "../storage";
+import { SplitResult } from "./bill-split.service";
+import { normalizeName } from "./menu-matching";
+
+export type OrderSessionStatus = "open" | "closed" | "paid";
+
+/** How a participant's payment was recorded */
+export type PaymentMethod = "button" | "reaction" | "message";
+
+export interface OrderItem {
+  name: string;
+  quantity: number;
+  notes?: string;
+  /** Unit price from the restaurant's menu, when the item was matched */
+  price?: number;
+  /** What the participant wrote, when it was matched to another menu name */
+  orderedAs?: string;
+}
+
+export interface Participant {
+  name: string;
+  userId?: string;
+  items: OrderItem[];
+  /** Set when the participant confirmed their order with the button */
+  confirmedAt?: string;
+  /** Set when the participant's share was marked as paid */
+  paidAt?: string;
+  paidVia?: PaymentMethod;
+}
+
+/**
+ * The person who paid the restaurant and is owed everyone else's share
+ */
+export interface Payer {
+  name: string;
+  userId?: string;
+}
+
+/**
+ * The catalog menu a thread's items were priced from
+ */
+export interface MenuReference {
+  restaurant: string;
+  currency: string;
+  source: string;
+}
+
+/**
+ * A manual instruction that changes the calculation, e.g. "Ahmed pays the
+ * delivery" or "Mona's fries were added offline"
+ */
+export interface Adjustment {
+  description: string;
+  participant?: string;
+  amount?: number;
+  createdAt: string;
+}
+
+export interface OrderSession {
+  channel: string;
+  threadTs: string;
+  status: OrderSessionStatus;
+  participants: Participant[];
+  adjustments: Adjustment[];
+  receipt?: Receipt;
+  /** ts of the message the receipt was read from */
+  receiptTs?: string;
+  /** Restaurant the thread is ordering from, as named in the thread */
+  restaurant?: string;
+  menu?: MenuReference;
+  /** Latest computed bill split, kept so split messages can be re-rendered */
+  split?: SplitResult;
+  payer?: Payer;
+  /** Slack user ID of whoever first asked Garçon to take orders here */
+  openedBy?: string;
+  /** ts of posted bill split messages, where a reaction marks a payment */
+  splitMessageTs?: string[];
+  /** ts of the newest thread message already checked for a receipt */
+  receiptCheckedTs?: string;
+  /** ts of the newest thread message already folded into this state */
+  lastProcessedTs?: string;
+  /** ts of Garçon's latest reply, refreshed in place when orders are edited */
+  lastReplyTs?: string;
+  /** Text of that reply without its split, kept so it can be redrawn */
+  lastReplyText?: string;
+  /** When the round closes automatically (ISO timestamp) */
+  cutoffAt?: string;
+  /** Set once unconfirmed participants were reminded of the cutoff */
+  reminderSentAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Incremental changes extracted from new thread messages. Each listed
+ * participant's items replace what they had before.
+ */
+export interface OrderUpdate {
+  participants: Array<{
+    name: string;
+    userId?: string;
+    items: OrderItem[];
+    removed?: boolean;
+  }>;
+  adjustments: Array<Omit<Adjustment, "createdAt">>;
+  /** Set when a new message says who paid the restaurant */
+  payer?: Payer;
+  /** People who said they paid their share back to the payer */
+  payments: Payer[];
+  /** Time of day someone asked orders to close at, e.g. "12:30" */
+  cutoff?: string;
+  /** Set when a new message names the restaurant */
+  restaurant?: string;
+}
+
+/**
+ * Renders an item as "name (quantity) - notes", with its menu price
+ * @param item - Ordered item
+ * @param currency - Menu currency, shown with the price
+ */
+export function formatItem(item: OrderItem, currency?: string): string {
+  const price =
+    item.price !== undefined
+      ? ` @ ${item.price} ${currency ?? ""}`.trimEnd()
+      : "";
+  return `${item.name} (${item.quantity})${price}${item.notes ? ` - ${item.notes}` : ""}`;
+}
+
+/** Sessions are kept for a month after their last update */
+const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Compares Slack message timestamps
+ * @returns True if ts is strictly newer than other (or other is unset)
+ */
+export function isNewerTs(ts: string, other?: string): boolean {
+  return other === undefined || Number(ts) > Number(other);
+}
+
+/**
+ * Whether a participant is the given person: by Slack user ID when both
+ * have one, otherwise by name ignoring case and surrounding spaces
+ * @param participant - Participant to check
+ * @param person - Name and optional user ID, e.g. an order change or payer
+ */
+export function isSameParticipant(
+  participant: Participant,
+  person: { name: string; userId?: string }
+): boolean {
+  if (participant.userId && person.userId) {
+    return participant.userId === person.userId;
+  }
+  return (
+    participant.name.trim().toLowerCase() === person.name.trim().toLowerCase()
+  );
+}
+
+/**
+ * Service for the persisted order state of each thread
+ */
+export class OrderSessionService {
+  constructor(private store: KeyValueStore<OrderSession>) {}
+
+  /**
+   * Loads the session for a thread, creating an empty one if none exists
+   * @param channel - Channel ID
+   * @param threadTs - Thread timestamp
+   * @param openedBy - User ID recorded as the opener of a new session
+   * @returns The thread's order session
+   */
+  async getOrCreate(
+    channel: string,
+    threadTs: string,
+    openedBy?: string
+  ): Promise<OrderSession> {
+    const existing = await this.store.get(this.key(channel, threadTs));
+    if (existing) return existing;
+
+    const now = new Date().toISOString();
+    return {
+      channel,
+      threadTs,
+      openedBy,
+      status: "open",
+      participants: [],
+      adjustments: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Loads the session for a thread without creating one
+   * @param channel - Channel ID
+   * @param threadTs - Thread timestamp
+   * @returns The thread's order session, or null if Garçon has none
+   */
+  async find(channel: string, threadTs: string): Promise<OrderSession | null> {
+    return (await this.store.get(this.key(channel, threadTs))) ?? null;
+  }
+
+  /**
+   * Forgets all orders and adjustments so the thread is read again from the
+   * start, e.g. after an order message was edited or deleted
+   * @param session - Session to reset; status and receipt are kept
+   * @returns The participants before the reset, for carryOverStatus()
+   */
+  resetOrders(session: OrderSession): Participant[] {
+    const previous = session.participants;
+    session.participants = [];
+    session.adjustments = [];
+    session.restaurant = undefined;
+    session.menu = undefined;
+    session.lastProcessedTs = undefined;
+    return previous;
+  }
+
+  /**
+   * Restores payments, and confirmations of unchanged orders, after the
+   * thread was read again from the start
+   * @param session - Session rebuilt after resetOrders()
+   * @param previous - Participants returned by resetOrders()
+   */
+  carryOverStatus(session: OrderSession, previous: Participant[]): void {
+    for (const participant of session.participants) {
+      const before = previous.find((p) => isSameParticipant(p, participant));
+      if (!before) continue;
+
+      participant.paidAt = before.paidAt;
+      participant.paidVia = before.paidVia;
+      if (this.sameItems(before.items, participant.items)) {
+        participant.confirmedAt = before.confirmedAt;
+      }
+    }
+  }
+
+  /**
+   * Persists a session
+   * @param session - Session to save
+   */
+  async save(session: OrderSession): Promise<void> {
+    session.updatedAt = new Date().toISOString();
+    await this.store.set(
+      this.key(session.channel, session.threadTs),
+      session,
+      SESSION_TTL_SECONDS
+    );
+  }
+
+  /**
+   * Deletes the stored state of a thread
+   * @param channel - Channel ID
+   * @param threadTs - Thread timestamp
+   */
+  async delete(channel: string, threadTs: string): Promise<void> {
+    await this.store.delete(this.key(channel, threadTs));
+  }
+
+  /**
+   * Finds the most recently updated session in a channel
+   * @param channel - Channel ID
+   * @returns Latest session, or null if the channel has none
+   */
+  async findLatest(channel: string): Promise<OrderSession | null> {
+    const sessions = (await this.list())
+      .filter((session) => session.channel === channel)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+    return sessions[0] ?? null;
+  }
+
+  /**
+   * Loads every stored session
+   * @returns All sessions that have not expired
+   */
+  async list(): Promise<OrderSession[]> {
+    return (await this.store.entries()).map(([, session]) => session);
+  }
+
+  /**
+   * Finds a participant by user ID, or by name ignoring case and
+   * surrounding spaces
+   * @param session - Session to search
+   * @param name - Participant name, e.g. from a bill split share
+   * @param userId - Slack user ID, preferred over the name when both sides
+   * have one
+   * @returns Matching participant, if any
+   */
+  findParticipant(
+    session: OrderSession,
+    name: string,
+    userId?: string
+  ): Participant | undefined {
+    return session.participants.find((p) =>
+      isSameParticipant(p, { name, userId })
+    );
+  }
+
+  /**
+   * Applies an incremental update to a session. Participant changes are
+   * ignored once the order round is no longer open.
+   * @param session - Session to update in place
+   * @param update - Changes extracted from new messages
+   * @returns The updated session
+   */
+  applyUpdate(session: OrderSession, update: OrderUpdate): OrderSession {
+    if (session.status !== "open" && update.participants.length > 0) {
+      logger.info("Ignoring order changes for a closed session", {
+        channel: session.channel,
+        threadTs: session.threadTs,
+        status: session.status,
+      });
+    } else {
+      for (const change of update.participants) {
+        const index = session.participants.findIndex((p) =>
+          isSameParticipant(p, change)
+        );
+
+        if (change.removed || change.items.length === 0) {
+          if (index !== -1) session.participants.splice(index, 1);
+          continue;
+        }
+
+        const previous = session.participants[index];
+        const participant: Participant = {
+          name: change.name,
+          userId: change.userId ?? previous?.userId,
+          items: change.items,
+          // A changed order has to be confirmed again
+          confirmedAt: this.sameItems(previous?.items, change.items)
+            ? previous?.confirmedAt
+            : undefined,
+          paidAt: previous?.paidAt,
+          paidVia: previous?.paidVia,
+        };
+        if (index === -1) {
+          session.participants.push(participant);
+        } else {
+          session.participants[index] = participant;
+        }
+      }
+    }
+
+    // Payments usually happen after the round is closed, so always apply them
+    if (update.payer) session.payer = update.payer;
+    for (const payment of update.payments) {
+      const participant = this.findParticipant(
+        session,
+        payment.name,
+        payment.userId
+      );
+      if (participant && !participant.paidAt) {
+        participant.paidAt = new Date().toISOString();
+        participant.paidVia = "message";
+      }
+    }
+
+    const now = new Date().toISOString();
+    session.adjustments.push(
+      ...update.adjustments.map((a) => ({ ...a, createdAt: now }))
+    );
+
+    return session;
+  }
+
+  /**
+   * Renders the session as an authoritative prompt section
+   * @param session - Session to render
+   * @returns Prompt context block
+   */
+  formatForPrompt(session: OrderSession): string {
+    const lines = [
+      "## Current Order State",
+      "This is Garçon's saved order list for this thread, including changes agreed outside the thread. Treat it as authoritative.",
+      `Status: ${session.status}`,
+    ];
+    if (session.cutoffAt && session.status === "open") {
+      lines.push(`Orders close automatically at: ${session.cutoffAt}`);
+    }
+    if (session.menu) {
+      lines.push(
+        `Restaurant: ${session.menu.restaurant} (prices below are from its menu, ${session.menu.source})`
+      );
+    } else if (session.restaurant) {
+      lines.push(`Restaurant: ${session.restaurant} (no menu on file)`);
+    }
+
+    if (session.participants.length === 0) {
+      lines.push("No orders recorded yet.");
+    }
+    for (const participant of session.participants) {
+      lines.push(`• ${participant.name}:`);
+      for (const item of participant.items) {
+        const orderedAs = item.orderedAs
+          ? ` [ordered as "${item.orderedAs}"]`
+          : "";
+        lines.push(
+          `  • ${formatItem(item, session.menu?.currency)}${orderedAs}`
+        );
+      }
+    }
+
+    if (session.adjustments.length > 0) {
+      lines.push("Manual adjustments:");
+      for (const adjustment of session.adjustments) {
+        const who = adjustment.participant ? `${adjustment.participant}: ` : "";
+        const amount =
+          adjustment.amount !== undefined ? ` (${adjustment.amount})` : "";
+        lines.push(`• ${who}${adjustment.description}${amount}`);
+      }
+    }
+
+    if (session.receipt) {
+      lines.push(
+        `Receipt on file: ${session.receipt.restaurant ?? "unknown restaurant"}, total ${session.receipt.total} ${session.receipt.currency}`
+      );
+    }
+
+    if (session.payer) {
+      lines.push(`Paid the restaurant: ${session.payer.name}`);
+    }
+    const paid = session.participants.filter((p) => p.paidAt);
+    if (paid.length > 0) {
+      lines.push(
+        `Paid their share back: ${paid.map((p) => p.name).join(", ")}`
+      );
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Renders the session as a human-readable Slack summary
+   * @param session - Session to render
+   * @returns Slack mrkdwn order summary
+   */
+  formatSummary(session: OrderSession): string {
+    if (session.participants.length === 0) {
+      return "📋 No orders recorded in this thread yet.";
+    }
+
+    const lines = [`*📋 Orders by User:* (${session.status})`];
+    const totals = new Map<string, number>();
+
+    for (const participant of session.participants) {
+      lines.push(`• *${participant.name}:*`);
+      for (const item of participant.items) {
+        lines.push(`  • ${formatItem(item, session.menu?.currency)}`);
+        totals.set(item.name, (totals.get(item.name) ?? 0) + item.quantity);
+      }
+    }
+
+    lines.push("", "*📊 Summary by Item:*");
+    for (const [name, quantity] of totals) {
+      lines.push(`• *${name}:* ${quantity}`);
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Compares orders by what was written, so an order priced from the menu
+   * (renamed, with orderedAs and a price) still equals the same order read
+   * again from the thread
+   */
+  private sameItems(a: OrderItem[] | undefined, b: OrderItem[]): boolean {
+    const keys = (items: OrderItem[]): string =>
+      JSON.stringify(
+        items.map((item) => [
+          normalizeName(item.orderedAs ?? item.name),
+          item.quantity,
+          item.notes?.trim() ?? "",
+        ])
+      );
+    return keys(a ?? []) === keys(b);
+  }
+
+  private key(channel: string, threadTs: string): string {
+    return `${channel}:${threadTs}`;
+  }
+}
@@ -0,0 +1,290 @@
+import logger from "../logger";
+import {
+  isSameParticipant,
+  OrderSession,
+  OrderSessionService,
+  Participant,
+  Payer,
+  PaymentMethod,
+} from "./order-session.service";
+
+/** Reactions that mark the reacting participant's share as paid */
+export const PAYMENT_REACTIONS = new Set([
+  "white_check_mark",
+  "heavy_check_mark",
+  "money_with_wings",
+  "moneybag",
+]);
+
+/**
+ * What one participant owes the payer for a thread
+ */
+export interface Debt {
+  participant: Participant;
+  amount: number;
+}
+
+export interface ThreadBalance {
+  /** Unset until someone says who paid the restaurant */
+  payer?: Payer;
+  currency: string;
+  debts: Debt[];
+  /** Sum of the unpaid debts */
+  outstanding: number;
+}
+
+/**
+ * Net amount between the user and one other person, across threads
+ */
+export interface Counterparty {
+  name: string;
+  userId?: string;
+  currency: string;
+  /** Positive when they owe the user, negative when the user owes them */
+  amount: number;
+  threads: number;
+}
+
+/**
+ * Rounds to minor units so sums of shares don't pick up float noise
+ */
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return `${amount.toFixed(2)} ${currency}`;
+}
+
+/**
+ * Whether a participant is the one who paid the restaurant; their share
+ * needs no paying back
+ * @param session - Thread's order session
+ * @param participant - Participant to check
+ */
+export function isPayer(
+  session: OrderSession,
+  participant: Participant | undefined
+): boolean {
+  const { payer } = session;
+  if (!payer || !participant) return false;
+  return (
+    session.participants.find((p) => isSameParticipant(p, payer)) ===
+    participant
+  );
+}
+
+/**
+ * Tracks who has paid back the person who fronted the bill. Amounts come
+ * from the session's latest bill split; payments are stored on the
+ * participants.
+ */
+export class PaymentService {
+  constructor(private orderSessionService: OrderSessionService) {}
+
+  /**
+   * Works out what each participant owes the payer for a thread
+   * @param session - Thread's order session
+   * @returns Balance, or null if the thread has no bill split yet
+   */
+  threadBalance(session: OrderSession): ThreadBalance | null {
+    const { split, payer } = session;
+    if (!split) return null;
+
+    const debts: Debt[] = [];
+    for (const share of split.shares) {
+      const participant = this.orderSessionService.findParticipant(
+        session,
+        share.name
+      );
+      // Shares nobody in the thread ordered (e.g. offline orders) aren't tracked
+      if (!participant || isPayer(session, participant)) continue;
+      debts.push({ participant, amount: share.total });
+    }
+
+    const outstanding = debts
+      .filter((debt) => !debt.participant.paidAt)
+      .reduce((sum, debt) => sum + debt.amount, 0);
+
+    return {
+      payer,
+      currency: split.currency,
+      debts,
+      outstanding: roundMoney(outstanding),
+    };
+  }
+
+  /**
+   * Marks a participant's share as paid
+   * @param session - Session to update in place
+   * @param participant - Participant who paid
+   * @param method - How the payment was reported
+   * @returns Whether anything changed
+   */
+  markPaid(
+    session: OrderSession,
+    participant: Participant,
+    method: PaymentMethod
+  ): boolean {
+    if (participant.paidAt || isPayer(session, participant)) return false;
+
+    participant.paidAt = new Date().toISOString();
+    participant.paidVia = method;
+    logger.info("Payment recorded", {
+      channel: session.channel,
+      threadTs: session.threadTs,
+      participant: participant.name,
+      method,
+    });
+    return true;
+  }
+
+  /**
+   * Clears a participant's payment
+   * @param session - Session to update in place
+   * @param participant - Participant to mark as unpaid
+   * @returns Whether anything changed
+   */
+  markUnpaid(session: OrderSession, participant: Participant): boolean {
+    if (!participant.paidAt) return false;
+
+    participant.paidAt = undefined;
+    participant.paidVia = undefined;
+    logger.info("Payment cleared", {
+      channel: session.channel,
+      threadTs: session.threadTs,
+      participant: participant.name,
+    });
+    return true;
+  }
+
+  /**
+   * Finds the session whose bill split was posted in a message, so a
+   * reaction on it can be treated as a payment
+   * @param channel - Channel ID of the message
+   * @param ts - Timestamp of the message
+   * @returns Matching session, or null if the message isn't a split
+   */
+  async findSessionForMessage(
+    channel: string,
+    ts: string
+  ): Promise<OrderSession | null> {
+    const sessions = await this.orderSessionService.list();
+    return (
+      sessions.find(
+        (session) =>
+          session.channel === channel &&
+          session.split !== undefined &&
+          (session.splitMessageTs?.includes(ts) || session.lastReplyTs === ts)
+      ) ?? null
+    );
+  }
+
+  /**
+   * Nets what a user owes and is owed across every thread with a split
+   * and a payer
+   * @param userId - Slack user ID
+   * @returns One entry per person and currency with a non-zero balance
+   */
+  async userBalance(userId: string): Promise<Counterparty[]> {
+    const byPerson = new Map<string, Counterparty>();
+    const add = (person: Payer, currency: string, amount: number): void => {
+      const key = `${person.userId ?? person.name.toLowerCase()}:${currency}`;
+      const entry = byPerson.get(key) ?? {
+        name: person.name,
+        userId: person.userId,
+        currency,
+        amount: 0,
+        threads: 0,
+      };
+      entry.amount = roundMoney(entry.amount + amount);
+      entry.threads += 1;
+      byPerson.set(key, entry);
+    };
+
+    for (const session of await this.orderSessionService.list()) {
+      const balance = this.threadBalance(session);
+      if (!balance?.payer) continue;
+
+      const payerIsUser = balance.payer.userId === userId;
+      for (const { participant, amount } of balance.debts) {
+        if (participant.paidAt) continue;
+        if (payerIsUser) {
+          add(participant, balance.currency, amount);
+        } else if (participant.userId === userId) {
+          add(balance.payer, balance.currency, -amount);
+        }
+      }
+    }
+
+    return [...byPerson.values()].filter((entry) => entry.amount !== 0);
+  }
+
+  /**
+   * Renders who still owes the payer for a thread
+   * @param session - Thread's order session
+   * @returns Slack mrkdwn balance
+   */
+  formatThreadBalance(session: OrderSession): string {
+    const balance = this.threadBalance(session);
+    if (!balance) {
+      return "💸 There's no bill split for this thread yet - run `/garcon split` first.";
+    }
+
+    const payer = balance.payer
+      ? `*${balance.payer.name}*`
+      : "whoever paid (tell me with `/garcon payer @name`)";
+    const lines = [`*💸 Payments* - owed to ${payer}`];
+    for (const { participant, amount } of balance.debts) {
+      const status = participant.paidAt ? "✅ paid" : "⏳ unpaid";
+      lines.push(
+        `• ${participant.name}: ${formatMoney(amount, balance.currency)} - ${status}`
+      );
+    }
+
+    lines.push(
+      "",
+      balance.outstanding > 0
+        ? `*Outstanding: ${formatMoney(balance.outstanding, balance.currency)}*`
+        : "*Everyone has paid* 🎉"
+    );
+    return lines.join("\n");
+  }
+
+  /**
+   * Renders a user's running balance across threads
+   * @param counterparties - Result of userBalance()
+   * @returns Slack mrkdwn balance
+   */
+  formatUserBalance(counterparties: Counterparty[]): string {
+    if (counterparties.length === 0) {
+      return "🎉 You're all square - nobody owes you and you owe nobody.";
+    }
+
+    const who = (entry: Counterparty): string =>
+      entry.userId ? `<@${entry.userId}>` : entry.name;
+    const threads = (entry: Counterparty): string =>
+      entry.threads === 1 ? "1 thread" : `${entry.threads} threads`;
+
+    const owe = counterparties.filter((entry) => entry.amount < 0);
+    const owed = counterparties.filter((entry) => entry.amount > 0);
+    const lines = ["*💸 Your running balance*"];
+    if (owe.length > 0) {
+      lines.push("You owe:");
+      for (const entry of owe) {
+        lines.push(
+          `• ${who(entry)}: ${formatMoney(-entry.amount, entry.currency)} (${threads(entry)})`
+        );
+      }
+    }
+    if (owed.length > 0) {
+      lines.push("Owed to you:");
+      for (const entry of owed) {
+        lines.push(
+          `• ${who(entry)}: ${formatMoney(entry.amount, entry.currency)} (${threads(entry)})`
+        );
+      }
+    }
+    return lines.join("\n");
+  }
+}
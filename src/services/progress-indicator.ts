@@ -0,0 +1,154 @@
+import { KnownBlock } from "@slack/bolt";
+import logger from "../logger";
+import { EventAttempt } from "./idempotency.service";
+import { SlackService } from "./slack.service";
+
+export const PLACEHOLDER_TEXT = "⏳ جاري التحضير... _Garçon is on it_";
+const WORKING_REACTION = "eyes";
+
+/** Minimum time between streamed chat.update calls, to stay under rate limits */
+const UPDATE_INTERVAL_MS = 1500;
+
+/**
+ * Shows users that a request is being worked on: reacts to the triggering
+ * message and posts a placeholder reply that is later replaced with the
+ * answer. Slack failures here are logged, never thrown, so feedback can't
+ * break the actual request. A retried event reuses the placeholder of the
+ * failed attempt, so retries don't stack up replies.
+ */
+export class ProgressIndicator {
+  private placeholderTs?: string;
+  private lastUpdateAt = 0;
+
+  constructor(
+    private slackService: SlackService,
+    private channel: string,
+    /** Thread to reply in; undefined replies at the top level (DMs) */
+    private threadTs: string | undefined,
+    private triggerTs: string,
+    /** Attempt being handled; holds the placeholder of a failed attempt */
+    private attempt?: EventAttempt
+  ) {}
+
+  /**
+   * Adds the working reaction and posts the placeholder message
+   */
+  async start(): Promise<void> {
+    try {
+      await this.slackService.addReaction(
+        this.channel,
+        this.triggerTs,
+        WORKING_REACTION
+      );
+    } catch (error) {
+      logger.warn("Failed to add working reaction", { error });
+    }
+
+    const previousTs = this.attempt?.placeholderTs;
+    if (previousTs) {
+      try {
+        // The failed attempt left its error reply there
+        await this.slackService.updateMessage(
+          this.channel,
+          previousTs,
+          PLACEHOLDER_TEXT
+        );
+        this.placeholderTs = previousTs;
+        return;
+      } catch (error) {
+        logger.warn("Failed to reuse placeholder; posting a new one", {
+          error,
+        });
+      }
+    }
+
+    try {
+      this.placeholderTs = await this.slackService.postMessage(
+        this.channel,
+        PLACEHOLDER_TEXT,
+        this.threadTs
+      );
+    } catch (error) {
+      logger.warn("Failed to post placeholder message", { error });
+      return;
+    }
+
+    if (this.placeholderTs && this.attempt) {
+      try {
+        await this.attempt.setPlaceholder(this.placeholderTs);
+      } catch (error) {
+        logger.warn("Failed to record placeholder message", { error });
+      }
+    }
+  }
+
+  /**
+   * Shows partial text in the placeholder, throttled to avoid rate limits
+   * @param text - Text generated so far
+   */
+  async update(text: string): Promise<void> {
+    if (!this.placeholderTs) return;
+    const now = Date.now();
+    if (now - this.lastUpdateAt < UPDATE_INTERVAL_MS) return;
+    this.lastUpdateAt = now;
+
+    try {
+      await this.slackService.updateMessage(
+        this.channel,
+        this.placeholderTs,
+        `${text} ⏳`
+      );
+    } catch (error) {
+      logger.warn("Failed to update placeholder message", { error });
+    }
+  }
+
+  /**
+   * Replaces the placeholder with the final text, or posts it as a new
+   * reply if there is no placeholder
+   * @param text - Final message text, or the fallback for blocks
+   * @param blocks - Block Kit layout of the final message
+   * @returns Timestamp of the message holding the final text
+   */
+  async finish(
+    text: string,
+    blocks?: KnownBlock[]
+  ): Promise<string | undefined> {
+    await this.clearReaction();
+
+    if (this.placeholderTs) {
+      try {
+        await this.slackService.updateMessage(
+          this.channel,
+          this.placeholderTs,
+          text,
+          blocks
+        );
+        return this.placeholderTs;
+      } catch (error) {
+        logger.warn("Failed to replace placeholder; posting instead", {
+          error,
+        });
+      }
+    }
+
+    return this.slackService.postMessage(
+      this.channel,
+      text,
+      this.threadTs,
+      blocks
+    );
+  }
+
+  private async clearReaction(): Promise<void> {
+    try {
+      await this.slackService.removeReaction(
+        this.channel,
+        this.triggerTs,
+        WORKING_REACTION
+      );
+    } catch (error) {
+      logger.warn("Failed to remove working reaction", { error });
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import { readdir, readFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import logger from "../logger";
+import { KeyValueStore } from "../storage";
+
+/**
+ * Everything that varies between offices: who Garçon pretends to be and
+ * the local bill rules
+ */
+export interface PromptProfile {
+  /** Persona name: DEFAULT_PERSONA or a file name in the personas directory */
+  persona: string;
+  /** "auto" follows the thread's language; anything else forces it */
+  language: string;
+  /** ISO currency code used when a receipt or thread doesn't name one */
+  currency: string;
+  /** Where the restaurants are, for estimates */
+  city: string;
+  /** VAT rate as a fraction, e.g. 0.14 */
+  vatRate: number;
+  /** Typical service charge rate as a fraction, used for estimates */
+  serviceRate: number;
+  /** IANA time zone cutoff times are read in; TIMEZONE when unset */
+  timeZone?: string;
+}
+
+/**
+ * Contents of the prompt config file. Channel entries win over workspace
+ * entries, which win over the defaults.
+ */
+export interface PromptConfig {
+  defaults?: Partial<PromptProfile>;
+  /** Keyed by Slack team ID */
+  workspaces?: Record<string, Partial<PromptProfile>>;
+  /** Keyed by Slack channel ID */
+  channels?: Record<string, Partial<PromptProfile>>;
+  /** User IDs allowed to switch personas in any channel */
+  admins?: string[];
+}
+
+/**
+ * A persona chosen with /garcon persona, kept on top of the config file
+ */
+export interface ChannelPersona {
+  persona: string;
+  setBy: string;
+  setAt: string;
+}
+
+export interface PromptRegistryOptions {
+  /** JSON file with per-workspace and per-channel overrides; optional */
+  configFile: string;
+  /** Directory holding additional persona prompts as <name>.txt */
+  personasDir: string;
+  /** Prompt used for DEFAULT_PERSONA */
+  defaultPromptFile: string;
+}
+
+/** Name of the persona backed by system_prompt.txt */
+export const DEFAULT_PERSONA = "omda";
+
+const ROOT_DIR = join(__dirname, "..", "..");
+
+const DEFAULT_OPTIONS: PromptRegistryOptions = {
+  configFile: join(ROOT_DIR, "prompt-config.json"),
+  personasDir: join(ROOT_DIR, "personas"),
+  defaultPromptFile: join(ROOT_DIR, "system_prompt.txt"),
+};
+
+const DEFAULT_PROFILE: PromptProfile = {
+  persona: DEFAULT_PERSONA,
+  language: "auto",
+  currency: "EGP",
+  city: "Cairo, Egypt",
+  vatRate: 0.14,
+  serviceRate: 0.12,
+};
+
+/**
+ * Replaces {{name}} placeholders with values; unknown names are left as-is
+ * so a typo shows up in the prompt rather than disappearing
+ * @param template - Prompt text
+ * @param variables - Values by placeholder name
+ * @returns Rendered prompt
+ */
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string>
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name) =>
+    name in variables ? variables[name] : placeholder
+  );
+}
+
+/**
+ * Renders a rate as a percentage without float noise, e.g. 0.14 -> "14"
+ */
+export function formatRate(rate: number): string {
+  return String(Math.round(rate * 10000) / 100);
+}
+
+/**
+ * Resolves the persona and bill rules for a channel and renders its system
+ * prompt. Persona files and the config file are read once and cached.
+ */
+export class PromptRegistryService {
+  private options: PromptRegistryOptions;
+  private config?: Promise<PromptConfig>;
+  private templates = new Map<string, Promise<string>>();
+
+  constructor(
+    private store: KeyValueStore<ChannelPersona>,
+    options: Partial<PromptRegistryOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Resolves the profile for a channel
+   * @param channel - Channel ID
+   * @param teamId - Workspace ID, for workspace-level overrides
+   * @returns Defaults merged with workspace, channel and chosen persona
+   */
+  async resolve(channel: string, teamId?: string): Promise<PromptProfile> {
+    const config = await this.getConfig();
+    const chosen = await this.store.get(channel);
+
+    return {
+      ...DEFAULT_PROFILE,
+      ...config.defaults,
+      ...(teamId ? config.workspaces?.[teamId] : undefined),
+      ...config.channels?.[channel],
+      ...(chosen ? { persona: chosen.persona } : {}),
+    };
+  }
+
+  /**
+   * Renders the system prompt for a profile
+   * @param profile - Result of resolve()
+   * @returns System prompt with placeholders filled in
+   */
+  async buildSystemPrompt(profile: PromptProfile): Promise<string> {
+    const template = await this.getTemplate(profile.persona);
+    const prompt = renderTemplate(template, {
+      persona: profile.persona,
+      language: profile.language,
+      currency: profile.currency,
+      city: profile.city,
+      vatPercent: formatRate(profile.vatRate),
+      servicePercent: formatRate(profile.serviceRate),
+    });
+
+    if (profile.language === "auto") return prompt;
+    return `${prompt}\n\n## Language\nAlways reply in ${profile.language}, whatever language the thread is written in.`;
+  }
+
+  /**
+   * Lists the personas that can be chosen
+   * @returns Persona names, the default first
+   */
+  async listPersonas(): Promise<string[]> {
+    let files: string[] = [];
+    try {
+      files = await readdir(this.options.personasDir);
+    } catch {
+      // No personas directory: only the default persona exists
+    }
+    const names = files
+      .filter((file) => extname(file) === ".txt")
+      .map((file) => basename(file, ".txt"))
+      .filter((name) => name !== DEFAULT_PERSONA)
+      .sort();
+    return [DEFAULT_PERSONA, ...names];
+  }
+
+  /**
+   * Switches a channel's persona, or goes back to the configured one
+   * @param channel - Channel ID
+   * @param persona - Persona name, or undefined to clear the choice
+   * @param userId - Who made the change
+   * @throws {Error} If the persona doesn't exist
+   */
+  async setPersona(
+    channel: string,
+    persona: string | undefined,
+    userId: string
+  ): Promise<void> {
+    if (persona === undefined) {
+      await this.store.delete(channel);
+      logger.info("Channel persona reset", { channel, userId });
+      return;
+    }
+
+    const personas = await this.listPersonas();
+    if (!personas.includes(persona)) {
+      throw new Error(
+        `Unknown persona "${persona}". Available: ${personas.join(", ")}`
+      );
+    }
+    await this.store.set(channel, {
+      persona,
+      setBy: userId,
+      setAt: new Date().toISOString(),
+    });
+    logger.info("Channel persona switched", { channel, persona, userId });
+  }
+
+  /**
+   * Whether the config file lists the user as a persona admin
+   * @param userId - Slack user ID
+   */
+  async isConfiguredAdmin(userId: string): Promise<boolean> {
+    return (await this.getConfig()).admins?.includes(userId) ?? false;
+  }
+
+  private getConfig(): Promise<PromptConfig> {
+    this.config ??= readFile(this.options.configFile, "utf-8")
+      .then((text) => JSON.parse(text) as PromptConfig)
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== "ENOENT") {
+          logger.error("Failed to load prompt config; using defaults", {
+            file: this.options.configFile,
+            error,
+          });
+        }
+        return {};
+      });
+    return this.config;
+  }
+
+  private getTemplate(persona: string): Promise<string> {
+    let template = this.templates.get(persona);
+    if (!template) {
+      const file =
+        persona === DEFAULT_PERSONA
+          ? this.options.defaultPromptFile
+          : join(this.options.personasDir, `${basename(persona)}.txt`);
+      template = readFile(file, "utf-8").catch((error) => {
+        // Fall back rather than leave the channel without a prompt
+        logger.error("Failed to load persona; using the default", {
+          persona,
+          error,
+        });
+        this.templates.delete(persona);
+        return readFile(this.options.defaultPromptFile, "utf-8");
+      });
+      this.templates.set(persona, template);
+    }
+    return template;
+  }
+}
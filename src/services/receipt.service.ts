@@ -0,0 +1,150 @@
+import logger from "../logger";
+import {
+  parseReceiptExtraction,
+  Receipt,
+  RECEIPT_EXTRACTION_INSTRUCTION,
+  receiptExtractionSchema,
+} from "../prompts/receipt-extraction";
+import { Message } from "./llm-provider";
+import { LlmService } from "./llm.service";
+
+export interface ReceiptValidation {
+  reconciles: boolean;
+  /** Items + charges - discount, as computed from the line items */
+  computedTotal: number;
+  /** Printed total minus computed total */
+  difference: number;
+}
+
+/** A receipt and the thread message it was read from */
+export interface FoundReceipt {
+  receipt: Receipt;
+  ts?: string;
+}
+
+/** Maximum number of messages with attachments inspected for a receipt */
+const MAX_RECEIPT_CANDIDATES = 3;
+
+/**
+ * Service for extracting and validating receipts posted in a thread
+ */
+export class ReceiptService {
+  constructor(private llmService: LlmService) {}
+
+  /**
+   * Finds the most recent receipt among the thread's images, PDFs and text
+   * files
+   * @param messages - Conversation messages with attachments
+   * @param signal - Request deadline
+   * @returns Extracted receipt and its message, or null if none of the
+   * attachments is a receipt
+   */
+  async findLatestReceipt(
+    messages: Message[],
+    signal?: AbortSignal
+  ): Promise<FoundReceipt | null> {
+    const candidates = messages
+      .filter((msg) => msg.images?.length || msg.documents?.length)
+      .reverse()
+      .slice(0, MAX_RECEIPT_CANDIDATES);
+
+    for (const candidate of candidates) {
+      const receipt = await this.extractReceipt(candidate, signal);
+      if (receipt) return { receipt, ts: candidate.ts };
+    }
+
+    return null;
+  }
+
+  /**
+   * Extracts a typed receipt from a single message's attachments
+   * @param message - Message carrying the receipt images or files
+   * @param signal - Request deadline
+   * @returns Extracted receipt, or null if the attachments are not a receipt
+   */
+  async extractReceipt(
+    message: Message,
+    signal?: AbortSignal
+  ): Promise<Receipt | null> {
+    const extraction = parseReceiptExtraction(
+      await this.llmService.generateStructured(
+        [
+          {
+            ...message,
+            content: "Receipt image(s) or file(s) posted in the thread",
+          },
+        ],
+        RECEIPT_EXTRACTION_INSTRUCTION,
+        receiptExtractionSchema,
+        signal
+      )
+    );
+
+    if (!extraction.isReceipt || !extraction.receipt) {
+      logger.info("Attachments are not a receipt", {
+        userName: message.userName,
+      });
+      return null;
+    }
+
+    logger.info("Receipt extracted", {
+      restaurant: extraction.receipt.restaurant,
+      itemCount: extraction.receipt.items.length,
+      total: extraction.receipt.total,
+    });
+    return extraction.receipt;
+  }
+
+  /**
+   * Checks that line items and charges add up to the printed total
+   * @param receipt - Extracted receipt
+   * @returns Validation result with the computed total and difference
+   */
+  validate(receipt: Receipt): ReceiptValidation {
+    const itemsMinor = receipt.items.reduce(
+      (sum, item) => sum + Math.round(item.quantity * item.unitPrice * 100),
+      0
+    );
+    const computedMinor =
+      itemsMinor +
+      Math.round(receipt.deliveryFee * 100) +
+      Math.round(receipt.serviceCharge * 100) +
+      Math.round(receipt.vat * 100) -
+      Math.round(receipt.discount * 100);
+    const differenceMinor = Math.round(receipt.total * 100) - computedMinor;
+
+    // Allow for the receipt's own rounding: 1 unit or 0.5%, whichever is larger
+    const toleranceMinor = Math.max(
+      100,
+      Math.round(receipt.total * 100 * 0.005)
+    );
+
+    return {
+      reconciles: Math.abs(differenceMinor) <= toleranceMinor,
+      computedTotal: computedMinor / 100,
+      difference: differenceMinor / 100,
+    };
+  }
+
+  /**
+   * Builds the thread warning posted when a receipt doesn't reconcile
+   * @param receipt - Extracted receipt
+   * @param validation - Result of validate()
+   * @returns Slack mrkdwn warning text
+   */
+  formatMismatchWarning(
+    receipt: Receipt,
+    validation: ReceiptValidation
+  ): string {
+    const money = (amount: number): string =>
+      `${amount.toFixed(2)} ${receipt.currency}`;
+
+    return [
+      "⚠️ *الفاتورة مش مظبوطة يا معلم!* The receipt doesn't add up:",
+      `• Items + delivery + service + VAT - discount: ${money(validation.computedTotal)}`,
+      `• Printed total: ${money(receipt.total)}`,
+      `• Difference: ${money(validation.difference)}`,
+      "The split below is reconciled to the printed total. Double-check the receipt or tell me what to fix.",
+    ].join("\n");
+  }
+}
@@ -0,0 +1,182 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { classifyHttpError, HttpStatusError, RetryPolicy } from "./retry";
+
+/** Error shaped like one from an HTTP client */
+function httpError(fields: Record<string, unknown>): Error {
+  return Object.assign(new Error("request failed"), fields);
+}
+
+describe("classifyHttpError", () => {
+  it("retries rate limits, timeouts and server errors", () => {
+    for (const status of [408, 429, 500, 502, 503, 504]) {
+      assert.deepEqual(classifyHttpError(httpError({ status })), {
+        reason: `HTTP ${status}`,
+        retryAfterMs: undefined,
+      });
+    }
+  });
+
+  it("gives up on client errors and 501", () => {
+    for (const status of [400, 401, 403, 404, 501]) {
+      assert.equal(classifyHttpError(httpError({ status })), null);
+    }
+  });
+
+  it("reads the status from the places SDKs put it", () => {
+    assert.equal(
+      classifyHttpError(httpError({ response: { status: 503 } }))?.reason,
+      "HTTP 503"
+    );
+    assert.equal(
+      classifyHttpError(httpError({ statusCode: 502 }))?.reason,
+      "HTTP 502"
+    );
+    assert.equal(
+      classifyHttpError(httpError({ status: "429" }))?.reason,
+      "HTTP 429"
+    );
+  });
+
+  it("honors Retry-After and Gemini's retryDelay", () => {
+    const headers = new Headers({ "retry-after": "7" });
+    assert.equal(
+      classifyHttpError(new HttpStatusError("busy", 429, headers))
+        ?.retryAfterMs,
+      7000
+    );
+    assert.equal(
+      classifyHttpError(
+        httpError({
+          response: { status: 503, headers: { "retry-after": "2" } },
+        })
+      )?.retryAfterMs,
+      2000
+    );
+    assert.equal(
+      classifyHttpError(
+        Object.assign(new Error('{"retryDelay": "30s"}'), { status: 429 })
+      )?.retryAfterMs,
+      30000
+    );
+  });
+
+  it("retries dropped connections, also when fetch wraps them", () => {
+    assert.deepEqual(classifyHttpError(httpError({ code: "ECONNRESET" })), {
+      reason: "ECONNRESET",
+    });
+    const fetchFailed = new TypeError("fetch failed", {
+      cause: httpError({ code: "UND_ERR_SOCKET" }),
+    });
+    assert.equal(classifyHttpError(fetchFailed)?.reason, "UND_ERR_SOCKET");
+  });
+
+  it("gives up on aborts and anything else", () => {
+    assert.equal(
+      classifyHttpError(
+        Object.assign(new Error("aborted"), { name: "AbortError" })
+      ),
+      null
+    );
+    assert.equal(classifyHttpError(new Error("boom")), null);
+    assert.equal(classifyHttpError("boom"), null);
+    assert.equal(classifyHttpError(undefined), null);
+  });
+});
+
+describe("RetryPolicy", () => {
+  const unavailable = (): Error => httpError({ status: 503 });
+
+  it("retries transient failures until the call succeeds", async () => {
+    const policy = new RetryPolicy({ baseDelayMs: 1 }, () => 0);
+    const attempts: number[] = [];
+
+    const result = await policy.run("test", async (attempt) => {
+      attempts.push(attempt);
+      if (attempt < 3) throw unavailable();
+      return "done";
+    });
+
+    assert.equal(result, "done");
+    assert.deepEqual(attempts, [1, 2, 3]);
+  });
+
+  it("stops after maxAttempts", async () => {
+    const policy = new RetryPolicy({ maxAttempts: 2, baseDelayMs: 1 });
+    let calls = 0;
+
+    await assert.rejects(
+      policy.run("test", async () => {
+        calls++;
+        throw unavailable();
+      }),
+      /request failed/
+    );
+    assert.equal(calls, 2);
+  });
+
+  it("doesn't retry permanent errors", async () => {
+    const policy = new RetryPolicy({ baseDelayMs: 1 });
+    let calls = 0;
+
+    await assert.rejects(
+      policy.run("test", async () => {
+        calls++;
+        throw httpError({ status: 400 });
+      })
+    );
+    assert.equal(calls, 1);
+  });
+
+  it("gives up at once rather than wait past the deadline", async () => {
+    const policy = new RetryPolicy();
+    policy.setDeadline(Date.now() + 1000);
+    let calls = 0;
+    const startedAt = Date.now();
+
+    await assert.rejects(
+      policy.run("test", async () => {
+        calls++;
+        throw new HttpStatusError(
+          "busy",
+          429,
+          new Headers({ "retry-after": "5" })
+        );
+      })
+    );
+    assert.equal(calls, 1);
+    assert.ok(Date.now() - startedAt < 500);
+  });
+
+  it("retries again once the deadline is removed", async () => {
+    const policy = new RetryPolicy({ baseDelayMs: 1 }, () => 0);
+    policy.setDeadline(Date.now() - 1);
+    policy.setDeadline(undefined);
+    let calls = 0;
+
+    await policy.run("test", async () => {
+      if (++calls === 1) throw unavailable();
+    });
+    assert.equal(calls, 2);
+  });
+
+  it("doesn't retry once the request's signal aborts", async () => {
+    const policy = new RetryPolicy({ baseDelayMs: 1 });
+    const controller = new AbortController();
+    let calls = 0;
+
+    await assert.rejects(
+      policy.run(
+        "test",
+        async () => {
+          calls++;
+          controller.abort();
+          throw unavailable();
+        },
+        undefined,
+        controller.signal
+      )
+    );
+    assert.equal(calls, 1);
+  });
+});
@@ -0,0 +1,286 @@
+import logger from "../logger";
+
+/**
+ * Why a failed call is worth another attempt
+ */
+export interface TransientFailure {
+  /** Short description for logs, e.g. "HTTP 503" or "ECONNRESET" */
+  reason: string;
+  /** Wait the server asked for (Retry-After), in milliseconds */
+  retryAfterMs?: number;
+}
+
+/**
+ * Decides whether an error is transient
+ * @returns Failure details, or null if retrying can't help
+ */
+export type ErrorClassifier = (error: unknown) => TransientFailure | null;
+
+export interface RetryOptions {
+  /** Attempts per call, including the first */
+  maxAttempts: number;
+  /** Backoff before the first retry; doubles with each attempt */
+  baseDelayMs: number;
+  /** Upper bound on a single backoff */
+  maxDelayMs: number;
+  /** Time one call may spend on attempts and waits before giving up */
+  maxElapsedMs: number;
+}
+
+/**
+ * Time kept free before a Lambda times out, so a request that runs out of
+ * time or retries can still tell the user and fail cleanly
+ */
+export const DEADLINE_MARGIN_MS = 5000;
+
+const DEFAULT_OPTIONS: RetryOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxElapsedMs: 60 * 1000,
+};
+
+/** Network error codes from Node and undici that usually clear up */
+const TRANSIENT_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+  "UND_ERR_SOCKET",
+]);
+
+/**
+ * Minimal shape of errors thrown by HTTP clients and SDKs
+ */
+interface HttpLikeError {
+  name?: string;
+  code?: string | number;
+  status?: number | string;
+  statusCode?: number;
+  response?: { status?: number; headers?: unknown };
+  headers?: unknown;
+  message?: string;
+  cause?: unknown;
+}
+
+/**
+ * Whether an HTTP status is worth retrying: rate limits, timeouts and
+ * server errors (except 501 Not Implemented)
+ */
+export function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 429 || (status >= 500 && status !== 501);
+}
+
+/**
+ * Parses a Retry-After header value (seconds or an HTTP date)
+ * @returns Milliseconds to wait, or undefined if absent or unreadable
+ */
+export function parseRetryAfter(
+  value: string | null | undefined
+): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now());
+}
+
+function headerValue(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== "object") return undefined;
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+function statusOf(error: HttpLikeError): number | undefined {
+  const candidates = [
+    error.response?.status,
+    error.statusCode,
+    error.status,
+    error.code,
+  ];
+  for (const candidate of candidates) {
+    const status = Number(candidate);
+    if (Number.isInteger(status) && status >= 100 && status < 600) {
+      return status;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Classifies errors from fetch, the GenAI SDK and similar HTTP clients:
+ * 408/429/5xx statuses, dropped connections and network timeouts are
+ * transient. A request aborted by its deadline signal is not.
+ * Gemini's RetryInfo ("retryDelay": "30s") is honored like Retry-After.
+ * @param error - Error thrown by the call
+ * @returns Failure details, or null for permanent errors
+ */
+export function classifyHttpError(error: unknown): TransientFailure | null {
+  if (!error || typeof error !== "object") return null;
+  const e = error as HttpLikeError;
+
+  const status = statusOf(e);
+  if (status !== undefined) {
+    if (!isTransientStatus(status)) return null;
+    const retryDelay = e.message?.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return {
+      reason: `HTTP ${status}`,
+      retryAfterMs:
+        parseRetryAfter(
+          headerValue(e.response?.headers ?? e.headers, "retry-after")
+        ) ?? (retryDelay ? Number(retryDelay[1]) * 1000 : undefined),
+    };
+  }
+
+  if (typeof e.code === "string" && TRANSIENT_NETWORK_CODES.has(e.code)) {
+    return { reason: e.code };
+  }
+  // fetch reports network failures as TypeError("fetch failed") with a cause
+  if (e.cause) return classifyHttpError(e.cause);
+  return null;
+}
+
+/**
+ * Error thrown by fetch-based clients for a non-OK response, carrying the
+ * status and Retry-After so classifyHttpError() can tell whether to retry
+ */
+export class HttpStatusError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly headers?: Headers
+  ) {
+    super(message);
+    this.name = "HttpStatusError";
+  }
+}
+
+/**
+ * Waits, ending early if the signal aborts; the caller's next attempt then
+ * fails on the aborted signal
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done(): void {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Retries transient failures with exponential backoff and full jitter,
+ * honoring Retry-After. One policy is shared by the model providers and
+ * Slack so a request's retries stay within one deadline: on Lambda each
+ * handler sets it from the remaining invocation time, so a retry never
+ * starts a wait the function can't finish.
+ */
+export class RetryPolicy {
+  private options: RetryOptions;
+  private deadline?: number;
+
+  constructor(
+    options: Partial<RetryOptions> = {},
+    private random: () => number = Math.random
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Sets the time no retry wait may run past, e.g. the Lambda timeout
+   * @param at - Epoch milliseconds, or undefined to remove the deadline
+   */
+  setDeadline(at: number | undefined): void {
+    this.deadline = at;
+  }
+
+  /**
+   * Backoff before a retry: a random wait up to base * 2^(attempt - 1),
+   * capped at maxDelayMs
+   * @param attempt - The attempt that just failed, starting at 1
+   */
+  backoff(attempt: number): number {
+    const ceiling = Math.min(
+      this.options.maxDelayMs,
+      this.options.baseDelayMs * 2 ** (attempt - 1)
+    );
+    return Math.round(this.random() * ceiling);
+  }
+
+  /**
+   * Runs a call, retrying it while it fails with transient errors
+   * @param operation - Name for logs, e.g. "conversations.replies"
+   * @param call - The call to make; receives the attempt number
+   * @param classify - Tells transient errors from permanent ones
+   * @param signal - Request deadline; no retry is made once it aborts
+   * @returns The call's result
+   * @throws The last error once it is permanent, the attempts or time
+   * budget run out or the signal aborts
+   */
+  async run<T>(
+    operation: string,
+    call: (attempt: number) => Promise<T>,
+    classify: ErrorClassifier = classifyHttpError,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const startedAt = Date.now();
+    const giveUpAt = Math.min(
+      startedAt + this.options.maxElapsedMs,
+      this.deadline ?? Infinity
+    );
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await call(attempt);
+      } catch (error) {
+        const failure = classify(error);
+        if (!failure || signal?.aborted) throw error;
+
+        if (attempt >= this.options.maxAttempts) {
+          logger.error("Retries exhausted", {
+            operation,
+            attempts: attempt,
+            reason: failure.reason,
+          });
+          throw error;
+        }
+
+        // Honor Retry-After, but never wait less than our own backoff
+        const delayMs = Math.max(
+          failure.retryAfterMs ?? 0,
+          this.backoff(attempt)
+        );
+        if (Date.now() + delayMs >= giveUpAt) {
+          logger.error("Retry budget exhausted", {
+            operation,
+            attempts: attempt,
+            reason: failure.reason,
+            delayMs,
+            elapsedMs: Date.now() - startedAt,
+          });
+          throw error;
+        }
+
+        logger.warn("Transient failure; retrying", {
+          operation,
+          attempt,
+          maxAttempts: this.options.maxAttempts,
+          reason: failure.reason,
+          delayMs,
+        });
+        await sleep(delayMs, signal);
+      }
+    }
+  }
+}
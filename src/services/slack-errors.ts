@@ -0,0 +1,83 @@
+import {
+  ErrorCode,
+  WebAPIHTTPError,
+  WebAPIPlatformError,
+  WebAPIRateLimitedError,
+  WebAPIRequestError,
+} from "@slack/web-api";
+import {
+  classifyHttpError,
+  isTransientStatus,
+  TransientFailure,
+} from "./retry";
+
+/** Platform errors Slack documents as temporary */
+const TRANSIENT_PLATFORM_ERRORS = new Set([
+  "internal_error",
+  "fatal_error",
+  "service_unavailable",
+  "request_timeout",
+]);
+
+/**
+ * Checks whether an error is a Slack Web API rate limit (HTTP 429)
+ */
+export function isRateLimitedError(
+  error: unknown
+): error is WebAPIRateLimitedError {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { code?: string }).code === ErrorCode.RateLimitedError
+  );
+}
+
+/**
+ * Retry classifier for Slack calls that are only safe to repeat when Slack
+ * certainly rejected them, such as posting a message: a dropped connection
+ * or a 5xx may still have posted it, and a retry would post it twice
+ * @returns Failure details for rate limits, null for everything else
+ */
+export function classifySlackRateLimit(
+  error: unknown
+): TransientFailure | null {
+  if (!isRateLimitedError(error)) return null;
+  return {
+    reason: "rate limited",
+    retryAfterMs: (error.retryAfter || 1) * 1000,
+  };
+}
+
+/**
+ * Retry classifier for idempotent Slack calls (reads, updates, reactions):
+ * rate limits, network failures, 5xx responses and Slack's temporary
+ * platform errors are transient
+ * @returns Failure details, or null if retrying can't help
+ */
+export function classifySlackError(error: unknown): TransientFailure | null {
+  const rateLimit = classifySlackRateLimit(error);
+  if (rateLimit || typeof error !== "object" || error === null) {
+    return rateLimit;
+  }
+
+  switch ((error as { code?: string }).code) {
+    case ErrorCode.RequestError:
+      return (
+        classifyHttpError((error as WebAPIRequestError).original) ?? {
+          reason: "request failed",
+        }
+      );
+    case ErrorCode.HTTPError: {
+      const { statusCode } = error as WebAPIHTTPError;
+      return isTransientStatus(statusCode)
+        ? { reason: `HTTP ${statusCode}` }
+        : null;
+    }
+    case ErrorCode.PlatformError: {
+      const code = (error as WebAPIPlatformError).data.error;
+      return TRANSIENT_PLATFORM_ERRORS.has(code) ? { reason: code } : null;
+    }
+    default:
+      return null;
+  }
+}
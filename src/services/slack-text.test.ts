@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  extractMentionedUserIds,
+  normalizeSlackText,
+  SlackTextContext,
+} from "./slack-text";
+
+const context: SlackTextContext = {
+  userNames: new Map([
+    ["U1", "Karim"],
+    ["U2", "Sara"],
+  ]),
+  botUserId: "U0GARCON",
+};
+
+describe("normalizeSlackText", () => {
+  it("resolves user mentions and drops the bot's own", () => {
+    assert.equal(
+      normalizeSlackText("<@U0GARCON> koshary for <@U1> and <@U2>", context),
+      "koshary for @Karim (U1) and @Sara (U2)"
+    );
+  });
+
+  it("falls back to the mention label, then the ID", () => {
+    assert.equal(
+      normalizeSlackText("<@U3|mona> and <@U4>", context),
+      "@mona (U3) and @U4"
+    );
+  });
+
+  it("renders channels, special mentions and dates", () => {
+    assert.equal(
+      normalizeSlackText(
+        "<#C1|lunch> <!here> <!subteam^S1|@eng> <!date^1700000000^{time}|12:30>",
+        context
+      ),
+      "#lunch @here @eng 12:30"
+    );
+  });
+
+  it("unwraps links and e-mail addresses", () => {
+    assert.equal(
+      normalizeSlackText(
+        "<https://talabat.com/menu|menu> <https://x.com> <mailto:a@b.com|a@b.com>",
+        context
+      ),
+      "menu (https://talabat.com/menu) https://x.com a@b.com"
+    );
+  });
+
+  it("turns known emoji into Unicode and keeps the rest", () => {
+    assert.equal(
+      normalizeSlackText(":pizza: :+1::skin-tone-3: :party-parrot:", context),
+      "🍕 👍 :party-parrot:"
+    );
+  });
+
+  it("decodes Slack's escapes without double-decoding", () => {
+    assert.equal(
+      normalizeSlackText("fish &amp; chips &lt;3 &amp;lt;", context),
+      "fish & chips <3 &lt;"
+    );
+  });
+
+  it("tidies the spaces a removed mention leaves behind", () => {
+    assert.equal(
+      normalizeSlackText(
+        "hi  <@U0GARCON>  there\n<@U0GARCON> 2 falafel",
+        context
+      ),
+      "hi there\n2 falafel"
+    );
+  });
+});
+
+describe("extractMentionedUserIds", () => {
+  it("lists each mentioned user once", () => {
+    assert.deepEqual(
+      extractMentionedUserIds("<@U1> <@U2|sara> <@U1> <#C1|lunch>"),
+      ["U1", "U2"]
+    );
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Converts Slack message markup (mrkdwn) into plain text the model can read.
+ * Slack sends mentions, channels and links as angle-bracket tokens such as
+ * <@U123>, <#C123|general> and <https://x.com|x>, and HTML-escapes &, < and >.
+ */
+
+export interface SlackTextContext {
+  /** Display names by user ID, used to resolve <@U123> mentions */
+  userNames: Map<string, string>;
+  /** The bot's own user ID; its mentions are removed */
+  botUserId?: string;
+}
+
+/** Matches every <...> markup token */
+const TOKEN_PATTERN = /<([^<>]+)>/g;
+
+/** Matches user mentions, with or without a label: <@U123> or <@U123|mona> */
+const USER_MENTION_PATTERN = /<@([UW][A-Z0-9]+)(?:\|[^>]*)?>/g;
+
+/** Matches emoji shortcodes, including skin tone modifiers */
+const EMOJI_PATTERN = /:([a-z0-9_+-]+):(?::skin-tone-\d:)?/g;
+
+/**
+ * Unicode for common shortcodes in food-ordering threads. Unknown shortcodes
+ * (including custom workspace emoji) are left as :name:, which reads fine.
+ */
+const EMOJI: Record<string, string> = {
+  "+1": "👍",
+  thumbsup: "👍",
+  "-1": "👎",
+  thumbsdown: "👎",
+  ok_hand: "👌",
+  pray: "🙏",
+  clap: "👏",
+  raised_hands: "🙌",
+  wave: "👋",
+  muscle: "💪",
+  heart: "❤️",
+  fire: "🔥",
+  eyes: "👀",
+  tada: "🎉",
+  white_check_mark: "✅",
+  heavy_check_mark: "✔️",
+  x: "❌",
+  warning: "⚠️",
+  moneybag: "💰",
+  money_with_wings: "💸",
+  joy: "😂",
+  sweat_smile: "😅",
+  smile: "😄",
+  slightly_smiling_face: "🙂",
+  yum: "😋",
+  drooling_face: "🤤",
+  sob: "😭",
+  thinking_face: "🤔",
+  pizza: "🍕",
+  hamburger: "🍔",
+  fries: "🍟",
+  hotdog: "🌭",
+  taco: "🌮",
+  burrito: "🌯",
+  stuffed_flatbread: "🥙",
+  falafel: "🧆",
+  sandwich: "🥪",
+  fried_egg: "🍳",
+  poultry_leg: "🍗",
+  meat_on_bone: "🍖",
+  cut_of_meat: "🥩",
+  rice: "🍚",
+  curry: "🍛",
+  spaghetti: "🍝",
+  ramen: "🍜",
+  sushi: "🍣",
+  bento: "🍱",
+  green_salad: "🥗",
+  bread: "🍞",
+  croissant: "🥐",
+  cake: "🍰",
+  doughnut: "🍩",
+  ice_cream: "🍨",
+  coffee: "☕",
+  tea: "🍵",
+  cup_with_straw: "🥤",
+  beer: "🍺",
+  chicken: "🐔",
+  hot_pepper: "🌶️",
+  fork_and_knife: "🍴",
+  knife_fork_plate: "🍽️",
+};
+
+/**
+ * Lists the users mentioned in a message, so their names can be looked up
+ * together with the message authors
+ * @param text - Raw Slack message text
+ * @returns Mentioned user IDs, without duplicates
+ */
+export function extractMentionedUserIds(text: string): string[] {
+  return [
+    ...new Set(
+      Array.from(text.matchAll(USER_MENTION_PATTERN), (match) => match[1])
+    ),
+  ];
+}
+
+/**
+ * Renders a single <...> token as plain text
+ */
+function renderToken(token: string, context: SlackTextContext): string {
+  const [target, label] = token.split("|", 2);
+
+  if (target.startsWith("@")) {
+    const userId = target.slice(1);
+    if (userId === context.botUserId) return "";
+    const name = context.userNames.get(userId) ?? label;
+    // Same "Name (ID)" shape as message authors, so the model can match them
+    return name ? `@${name} (${userId})` : `@${userId}`;
+  }
+
+  if (target.startsWith("#")) {
+    return `#${label ?? target.slice(1)}`;
+  }
+
+  if (target.startsWith("!")) {
+    // <!here>, <!channel>, <!subteam^S123|@team>, <!date^...|fallback>
+    if (label) return label;
+    return `@${target.slice(1).split("^")[0]}`;
+  }
+
+  if (target.startsWith("mailto:")) {
+    return label ?? target.slice("mailto:".length);
+  }
+
+  // Links: show the label when it differs from the URL
+  if (label && label !== target) return `${label} (${target})`;
+  return target;
+}
+
+/**
+ * Converts Slack mrkdwn into readable plain text: resolves user mentions to
+ * names, channel links to #names, unwraps URLs, turns common emoji
+ * shortcodes into Unicode and removes mentions of the bot itself
+ * @param text - Raw Slack message text
+ * @param context - Known user names and the bot's user ID
+ * @returns Plain text for the model
+ */
+export function normalizeSlackText(
+  text: string,
+  context: SlackTextContext
+): string {
+  return (
+    text
+      .replace(TOKEN_PATTERN, (_, token: string) => renderToken(token, context))
+      .replace(EMOJI_PATTERN, (match, name: string) => EMOJI[name] ?? match)
+      // Slack escapes only these three; &amp; must be decoded last
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&amp;/g, "&")
+      // Removing the bot mention can leave doubled or leading spaces
+      .replace(/[ \t]{2,}/g, " ")
+      .replace(/^[ \t]+/gm, "")
+  );
+}
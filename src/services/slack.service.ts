@@ -1,22 +1,95 @@
-import { WebClient } from "@slack/web-api";
+import { KnownBlock } from "@slack/bolt";
+import { ConversationsRepliesResponse, WebClient } from "@slack/web-api";
 import logger from "../logger";
+import { KeyValueStore, MemoryStore } from "../storage";
+import { HttpStatusError, RetryPolicy } from "./retry";
+import { classifySlackError, classifySlackRateLimit } from "./slack-errors";
+import { extractMentionedUserIds, normalizeSlackText } from "./slack-text";
+import {
+  CachedUser,
+  preferredName,
+  UserDirectoryService,
+  UserProfile,
+} from "./user-directory.service";
 
-export interface SlackImageBlob {
+/**
+ * Images go through image normalization; documents (PDFs and text files)
+ * are passed to the model as-is
+ */
+export type SlackAttachmentKind = "image" | "document";
+
+export interface SlackAttachment {
+  kind: SlackAttachmentKind;
   blob: Blob;
   mimeType: string;
   name: string;
 }
 
+/**
+ * An attachment that was left out of the conversation, with a reason users
+ * can read
+ */
+export interface SkippedAttachment {
+  name: string;
+  reason: string;
+  /** Timestamp of the Slack message the file was attached to */
+  ts?: string;
+}
+
 export interface SlackMessage {
+  /** Plain text: mentions, links and emoji are resolved (see slack-text.ts) */
   text: string;
   user: string;
   userName?: string;
   ts: string;
-  images?: SlackImageBlob[];
+  attachments?: SlackAttachment[];
+  /** Attached files that could not be downloaded */
+  skippedAttachments?: SkippedAttachment[];
 }
 
-// No in-process retry logic: rely on SQS redelivery instead. Keep calls simple and
-// let errors bubble so the processor Lambda can fail fast and SQS will retry.
+type RawThreadMessage = NonNullable<
+  ConversationsRepliesResponse["messages"]
+>[number];
+
+type SlackFile = NonNullable<RawThreadMessage["files"]>[number];
+
+export interface SlackServiceOptions {
+  /** Maximum messages kept per thread: the parent plus the newest replies */
+  threadMessageLimit: number;
+  /** Newest DM messages read as context when a user messages the bot */
+  directMessageLimit: number;
+  /** Safety cap on conversations.replies pages fetched per thread */
+  maxThreadPages: number;
+  /** Attached images larger than this are not downloaded, in bytes */
+  maxImageFileBytes: number;
+  /** Attached PDFs larger than this are not downloaded, in bytes */
+  maxPdfFileBytes: number;
+  /** Attached text files and snippets larger than this are not downloaded */
+  maxTextFileBytes: number;
+  /** How long user names are cached before asking Slack again, in seconds */
+  userCacheTtlSeconds: number;
+}
+
+const DEFAULT_OPTIONS: SlackServiceOptions = {
+  threadMessageLimit: 500,
+  directMessageLimit: 50,
+  maxThreadPages: 25,
+  maxImageFileBytes: 20 * 1024 * 1024,
+  maxPdfFileBytes: 10 * 1024 * 1024,
+  maxTextFileBytes: 256 * 1024,
+  userCacheTtlSeconds: 24 * 60 * 60,
+};
+
+/** Page size for conversations.replies; Slack recommends no more than 200 */
+const REPLIES_PAGE_SIZE = 200;
+
+/** Web API calls can't take an abort signal, so each is capped instead */
+const API_TIMEOUT_MS = 15 * 1000;
+
+// The Web API client's own retries (up to 30 minutes) are turned off so every
+// call goes through the shared RetryPolicy, which keeps waits within the
+// Lambda's remaining time. Posting messages only retries rate limits, since a
+// failed connection may still have posted and a retry would duplicate it.
 
 /**
  * Service for interacting with Slack API
@@ -24,9 +97,34 @@ export interface SlackMessage {
 export class SlackService {
   private client: WebClient;
   private botUserId: string | null = null;
+  private teamId?: string;
+  private options: SlackServiceOptions;
+  private userDirectory: UserDirectoryService;
 
-  constructor(token: string) {
-    this.client = new WebClient(token);
+  /**
+   * @param token - Bot token
+   * @param options - Thread, attachment and cache limits
+   * @param userStore - Persistent backing for the user name cache
+   * @param retryPolicy - Backoff for transient Slack errors
+   */
+  constructor(
+    token: string,
+    options: Partial<SlackServiceOptions> = {},
+    userStore: KeyValueStore<CachedUser> = new MemoryStore(),
+    private retryPolicy: RetryPolicy = new RetryPolicy()
+  ) {
+    this.client = new WebClient(token, {
+      rejectRateLimitedCalls: true,
+      retryConfig: { retries: 0 },
+      timeout: API_TIMEOUT_MS,
+    });
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.userDirectory = new UserDirectoryService(
+      this.client,
+      userStore,
+      { ttlSeconds: this.options.userCacheTtlSeconds },
+      retryPolicy
+    );
   }
 
   /**
@@ -34,8 +132,13 @@ export class SlackService {
    */
   async initialize(): Promise<void> {
     try {
-      const authResult = await this.client.auth.test();
+      const authResult = await this.retryPolicy.run(
+        "auth.test",
+        () => this.client.auth.test(),
+        classifySlackError
+      );
       this.botUserId = authResult.user_id as string;
+      this.teamId = authResult.team_id;
     } catch (error) {
       logger.error("Slack auth.test failed", { error });
       throw error;
@@ -55,87 +158,132 @@ export class SlackService {
   }
 
   /**
-   * Fetches user information for a given user ID
-   * @param userId - User ID to fetch information for
-   * @returns User information including name and real name
+   * Retrieves the ID of the workspace the bot is installed in
+   * @returns Team ID, or undefined before initialize()
    */
-  async getUserInfo(
-    userId: string
-  ): Promise<{ id: string; name: string; realName: string } | null> {
-    try {
-      const result = await this.client.users.info({ user: userId });
-
-      if (result.user) {
-        return {
-          id: userId,
-          name: result.user.name || "unknown",
-          realName: result.user.real_name || result.user.name || "Unknown User",
-        };
-      }
-      return null;
-    } catch (error) {
-      logger.error("Failed to fetch user info", { userId, error });
-      return null;
-    }
+  getTeamId(): string | undefined {
+    return this.teamId;
   }
 
   /**
-   * Fetches information for multiple users
-   * @param userIds - Array of user IDs
-   * @returns Map of user ID to user information
+   * Looks up who created a channel
+   * @param channel - Channel ID
+   * @returns Creator's user ID, or undefined if Slack doesn't say
    */
-  async getUserInfoBatch(
-    userIds: string[]
-  ): Promise<Map<string, { name: string; realName: string }>> {
-    logger.info("Fetching user information batch", {
-      userCount: userIds.length,
-    });
-
-    const userMap = new Map<string, { name: string; realName: string }>();
-
-    await Promise.all(
-      userIds.map(async (userId) => {
-        const userInfo = await this.getUserInfo(userId);
-        if (userInfo) {
-          userMap.set(userId, {
-            name: userInfo.name,
-            realName: userInfo.realName,
-          });
-        }
-      })
+  async getChannelCreator(channel: string): Promise<string | undefined> {
+    const result = await this.retryPolicy.run(
+      "conversations.info",
+      () => this.client.conversations.info({ channel }),
+      classifySlackError
     );
+    return result.channel?.creator;
+  }
 
-    logger.info("User information batch fetched", {
-      fetchedCount: userMap.size,
-    });
-    return userMap;
+  /**
+   * Fetches user information for a given user ID, from cache when possible
+   * @param userId - User ID to fetch information for
+   * @returns User profile, or null if the user can't be resolved
+   */
+  async getUserInfo(userId: string): Promise<UserProfile | null> {
+    return this.userDirectory.getUser(userId);
+  }
+
+  /**
+   * Fetches information for multiple users, from cache when possible
+   * @param userIds - Array of user IDs
+   * @returns Map of user ID to user profile
+   */
+  async getUserInfoBatch(userIds: string[]): Promise<Map<string, UserProfile>> {
+    return this.userDirectory.getUsers(userIds);
   }
 
   /**
    * Fetches all members in a channel including the parent message
    * @param channel - Channel ID where the thread exists
    * @param threadTs - Thread timestamp identifier
+   * @param signal - Request deadline; stops paging and file downloads
    * @returns Array of Slack messages in chronological order
    */
   async fetchThreadMessages(
     channel: string,
-    threadTs: string
+    threadTs: string,
+    signal?: AbortSignal
   ): Promise<SlackMessage[]> {
     logger.info("Fetching thread messages", { channel, threadTs });
 
-    const result = await this.client.conversations.replies({
-      channel,
-      ts: threadTs,
-    });
+    const rawMessages = await this.fetchAllReplies(channel, threadTs, signal);
 
-    if (!result.messages) {
+    if (rawMessages.length === 0) {
       logger.warn("No messages found in thread", { channel, threadTs });
       return [];
     }
 
+    const messages = await this.toSlackMessages(rawMessages, signal);
+
+    logger.info("Thread messages fetched", {
+      channel,
+      threadTs,
+      messageCount: messages.length,
+      messages: messages.map((msg, idx) => ({
+        index: idx + 1,
+        user: msg.userName || msg.user,
+        textPreview: msg.text.substring(0, 50).replace(/\n/g, " "),
+        hasMoreText: msg.text.length > 50,
+        attachmentCount: msg.attachments?.length || 0,
+      })),
+    });
+
+    return messages;
+  }
+
+  /**
+   * Fetches the newest messages of a direct message conversation with the
+   * bot. Unlike threads, a DM is one long conversation, so only the latest
+   * top-level messages are read.
+   * @param channel - DM channel ID
+   * @param signal - Request deadline; stops file downloads
+   * @returns Messages in chronological order, with user names and files
+   */
+  async fetchDirectMessages(
+    channel: string,
+    signal?: AbortSignal
+  ): Promise<SlackMessage[]> {
+    const result = await this.retryPolicy.run(
+      "conversations.history",
+      () =>
+        this.client.conversations.history({
+          channel,
+          limit: this.options.directMessageLimit,
+        }),
+      classifySlackError
+    );
+    // History comes newest first
+    const rawMessages = [...(result.messages ?? [])].reverse();
+    const messages = await this.toSlackMessages(
+      rawMessages as RawThreadMessage[],
+      signal
+    );
+
+    logger.info("Direct messages fetched", {
+      channel,
+      messageCount: messages.length,
+    });
+    return messages;
+  }
+
+  /**
+   * Downloads attached files and resolves user names for raw Slack messages
+   * @param rawMessages - Messages from conversations.replies or .history
+   * @param signal - Request deadline
+   * @returns Messages with normalized text
+   */
+  private async toSlackMessages(
+    rawMessages: RawThreadMessage[],
+    signal?: AbortSignal
+  ): Promise<SlackMessage[]> {
     const messages: SlackMessage[] = [];
 
-    for (const msg of result.messages) {
+    for (const msg of rawMessages) {
       const slackMessage: SlackMessage = {
         text: msg.text || "",
         user: msg.user || msg.bot_id || "unknown",
@@ -143,81 +291,207 @@ export class SlackService {
       };
 
       if (msg.files && msg.files.length > 0) {
-        const imageBlobs: SlackImageBlob[] = [];
+        const attachments: SlackAttachment[] = [];
+        const skippedAttachments: SkippedAttachment[] = [];
 
         for (const file of msg.files) {
           const url = file.url_private_download || file.url_private;
-          if (url && file.mimetype?.startsWith("image/")) {
-            try {
-              const blob = await this.fetchImageAsBlob(url);
-              imageBlobs.push({
-                blob,
-                mimeType: file.mimetype,
-                name: file.name || "image",
-              });
-            } catch (error) {
-              logger.error("Failed to fetch image blob", { url, error });
-            }
+          const attachment = url ? this.classifyFile(file) : null;
+          if (!url || !attachment) continue;
+
+          const name = file.name || file.title || attachment.kind;
+          if (file.size && file.size > attachment.maxBytes) {
+            skippedAttachments.push({ name, reason: "file is too large" });
+            continue;
+          }
+
+          try {
+            const blob = await this.fetchFileAsBlob(url, signal);
+            attachments.push({
+              kind: attachment.kind,
+              blob,
+              mimeType: attachment.mimeType,
+              name,
+            });
+          } catch (error) {
+            // Out of time: skipping the file would only delay the failure
+            if (signal?.aborted) throw error;
+            logger.error("Failed to fetch file blob", { url, error });
+            skippedAttachments.push({
+              name,
+              reason: "could not be downloaded",
+            });
           }
         }
 
-        if (imageBlobs.length > 0) {
-          slackMessage.images = imageBlobs;
+        if (attachments.length > 0) {
+          slackMessage.attachments = attachments;
+        }
+        if (skippedAttachments.length > 0) {
+          slackMessage.skippedAttachments = skippedAttachments;
         }
       }
 
       messages.push(slackMessage);
     }
 
+    // Authors and mentioned users are looked up together
     const uniqueUserIds = [
       ...new Set(
         messages
-          .map((m) => m.user)
+          .flatMap((m) => [m.user, ...extractMentionedUserIds(m.text)])
           .filter((id) => id !== "unknown" && !id.startsWith("B"))
       ),
     ];
     const userInfoMap = await this.getUserInfoBatch(uniqueUserIds);
 
+    const userNames = new Map<string, string>();
+    userInfoMap.forEach((profile, userId) => {
+      userNames.set(userId, preferredName(profile));
+    });
+
     messages.forEach((msg) => {
-      const userInfo = userInfoMap.get(msg.user);
-      if (userInfo) {
-        msg.userName = userInfo.realName || userInfo.name;
-      }
+      msg.userName = userNames.get(msg.user);
+      msg.text = normalizeSlackText(msg.text, {
+        userNames,
+        botUserId: this.botUserId ?? undefined,
+      });
     });
 
-    logger.info("Thread messages fetched", {
+    return messages;
+  }
+
+  /**
+   * Pages through conversations.replies. Long threads are trimmed to the
+   * parent message plus the newest replies, since later messages carry the
+   * latest orders and corrections.
+   * @param channel - Channel ID where the thread exists
+   * @param threadTs - Thread timestamp identifier
+   * @param signal - Request deadline, checked before each page
+   * @returns Raw Slack messages in chronological order
+   */
+  private async fetchAllReplies(
+    channel: string,
+    threadTs: string,
+    signal?: AbortSignal
+  ): Promise<RawThreadMessage[]> {
+    const messages: RawThreadMessage[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      signal?.throwIfAborted();
+      const result = await this.retryPolicy.run(
+        "conversations.replies",
+        () =>
+          this.client.conversations.replies({
+            channel,
+            ts: threadTs,
+            limit: REPLIES_PAGE_SIZE,
+            cursor,
+          }),
+        classifySlackError
+      );
+      messages.push(...(result.messages ?? []));
+      pages += 1;
+
+      cursor = result.has_more
+        ? result.response_metadata?.next_cursor || undefined
+        : undefined;
+    } while (cursor && pages < this.options.maxThreadPages);
+
+    if (cursor) {
+      logger.warn(
+        "Thread has more pages than allowed; newest replies missing",
+        {
+          channel,
+          threadTs,
+          pages,
+        }
+      );
+    }
+
+    const limit = this.options.threadMessageLimit;
+    if (messages.length <= limit) return messages;
+
+    logger.warn("Thread exceeds message limit; dropping older replies", {
       channel,
       threadTs,
       messageCount: messages.length,
-      messages: messages.map((msg, idx) => ({
-        index: idx + 1,
-        user: msg.userName || msg.user,
-        textPreview: msg.text.substring(0, 50).replace(/\n/g, " "),
-        hasMoreText: msg.text.length > 50,
-        imageCount: msg.images?.length || 0,
-      })),
+      limit,
     });
-
-    return messages;
+    return [messages[0], ...messages.slice(messages.length - (limit - 1))];
   }
 
   /**
-   * Fetches an image from Slack as a Blob
-   * @param url - Slack image URL
-   * @returns Blob containing the image data
+   * Decides whether an attached file is passed to the model
+   * @param file - File attached to a Slack message
+   * @returns Attachment kind, the mime type to send and the size limit, or
+   * null for files the model cannot use (videos, archives, ...)
    */
-  private async fetchImageAsBlob(url: string): Promise<Blob> {
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${this.client.token}`,
-      },
-    });
+  private classifyFile(
+    file: SlackFile
+  ): { kind: SlackAttachmentKind; mimeType: string; maxBytes: number } | null {
+    const mimeType = file.mimetype?.toLowerCase() ?? "";
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch image: ${response.statusText}`);
+    if (mimeType.startsWith("image/")) {
+      return {
+        kind: "image",
+        mimeType,
+        maxBytes: this.options.maxImageFileBytes,
+      };
     }
+    if (mimeType === "application/pdf") {
+      return {
+        kind: "document",
+        mimeType,
+        maxBytes: this.options.maxPdfFileBytes,
+      };
+    }
+    // Snippets and .txt/.csv e-receipts; sent as plain text for every model
+    if (mimeType.startsWith("text/") || file.mode === "snippet") {
+      return {
+        kind: "document",
+        mimeType: "text/plain",
+        maxBytes: this.options.maxTextFileBytes,
+      };
+    }
+    return null;
+  }
 
-    return response.blob();
+  /**
+   * Fetches a file from Slack as a Blob
+   * @param url - Slack private file URL
+   * @param signal - Request deadline
+   * @returns Blob containing the file data
+   */
+  private async fetchFileAsBlob(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    return this.retryPolicy.run(
+      "files.download",
+      async () => {
+        const response = await fetch(url, {
+          headers: {
+            Authorization: `Bearer ${this.client.token}`,
+          },
+          signal,
+        });
+
+        if (!response.ok) {
+          throw new HttpStatusError(
+            `Failed to fetch file: ${response.statusText}`,
+            response.status,
+            response.headers
+          );
+        }
+
+        return response.blob();
+      },
+      undefined,
+      signal
+    );
   }
 
   /**
@@ -225,16 +499,104 @@ export class SlackService {
    * @param channel - Target channel ID
    * @param text - Message text to send
    * @param threadTs - Optional thread timestamp for threaded replies
+   * @param blocks - Optional Block Kit layout; text is then the fallback
+   * @returns Timestamp of the posted message
    */
   async postMessage(
     channel: string,
     text: string,
+    threadTs?: string,
+    blocks?: KnownBlock[]
+  ): Promise<string | undefined> {
+    const result = await this.retryPolicy.run(
+      "chat.postMessage",
+      () =>
+        this.client.chat.postMessage({
+          channel,
+          text,
+          thread_ts: threadTs,
+          blocks,
+        }),
+      classifySlackRateLimit
+    );
+    return result.ts;
+  }
+
+  /**
+   * Replaces the text of a message the bot posted earlier
+   * @param channel - Channel ID of the message
+   * @param ts - Timestamp of the message to update
+   * @param text - New message text (the notification fallback with blocks)
+   * @param blocks - Optional Block Kit layout replacing the old one
+   */
+  async updateMessage(
+    channel: string,
+    ts: string,
+    text: string,
+    blocks?: KnownBlock[]
+  ): Promise<void> {
+    await this.retryPolicy.run(
+      "chat.update",
+      () => this.client.chat.update({ channel, ts, text, blocks }),
+      classifySlackError
+    );
+  }
+
+  /**
+   * Adds an emoji reaction to a message
+   * @param channel - Channel ID of the message
+   * @param ts - Timestamp of the message
+   * @param name - Emoji name without colons
+   */
+  async addReaction(channel: string, ts: string, name: string): Promise<void> {
+    await this.retryPolicy.run(
+      "reactions.add",
+      () => this.client.reactions.add({ channel, timestamp: ts, name }),
+      classifySlackError
+    );
+  }
+
+  /**
+   * Removes an emoji reaction the bot added to a message
+   * @param channel - Channel ID of the message
+   * @param ts - Timestamp of the message
+   * @param name - Emoji name without colons
+   */
+  async removeReaction(
+    channel: string,
+    ts: string,
+    name: string
+  ): Promise<void> {
+    await this.retryPolicy.run(
+      "reactions.remove",
+      () => this.client.reactions.remove({ channel, timestamp: ts, name }),
+      classifySlackError
+    );
+  }
+
+  /**
+   * Posts a message only visible to one user
+   * @param channel - Target channel ID
+   * @param user - User who will see the message
+   * @param text - Message text to send
+   * @param threadTs - Optional thread timestamp
+   */
+  async postEphemeral(
+    channel: string,
+    user: string,
+    text: string,
     threadTs?: string
   ): Promise<void> {
-    await this.client.chat.postMessage({
-      channel,
-      text,
-      thread_ts: threadTs,
-    });
+    await this.retryPolicy.run(
+      "chat.postEphemeral",
+      () =>
+        this.client.chat.postEphemeral({
+          channel,
+          user,
+          text,
+          thread_ts: threadTs,
+        }),
+      classifySlackRateLimit
+    );
   }
 }
@@ -0,0 +1,390 @@
+import { readdir, readFile, stat, writeFile } from "node:fs/promises";
+import { dirname, extname, join, resolve } from "node:path";
+import { EnvConfig } from "../config";
+import { createLlmProvider, createServices } from "../container";
+import logger from "../logger";
+import {
+  FakeLlmService,
+  RecordingLlmService,
+  ScriptedResponse,
+} from "./fake-llm.service";
+import { FakeSlackService } from "./fake-slack.service";
+import { LlmProvider } from "./llm-provider";
+import { OrderSession, OrderSessionStatus } from "./order-session.service";
+import { PLACEHOLDER_TEXT } from "./progress-indicator";
+import { SlackAttachment } from "./slack.service";
+
+/** Fixtures checked when no paths are given */
+export const DEFAULT_FIXTURE_DIR = join(
+  __dirname,
+  "..",
+  "..",
+  "fixtures",
+  "threads"
+);
+
+const DEFAULT_CHANNEL = "C0REPLAY";
+const DEFAULT_BOT_USER_ID = "U0GARCON";
+
+/** Amounts closer than this are equal; splits are rounded to piastres */
+const AMOUNT_TOLERANCE = 0.005;
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+  ".heic": "image/heic",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+  ".csv": "text/plain",
+};
+
+/**
+ * A file attached to a fixture message, read relative to the fixture
+ */
+export interface FixtureFile {
+  path: string;
+  /** Defaults to the file name */
+  name?: string;
+  /** Defaults to the type implied by the extension */
+  mimeType?: string;
+}
+
+export interface FixtureMessage {
+  user: string;
+  ts: string;
+  /** Raw Slack text; "<@U0GARCON> split please" mentions the bot */
+  text: string;
+  files?: FixtureFile[];
+}
+
+/**
+ * Outcome a fixture must reproduce. Names are participant names as saved
+ * in the order session and the bill split.
+ */
+export interface ThreadExpectations {
+  /** Whether a bill split must (or must not) have been computed */
+  split?: boolean;
+  /** Bill total after charges and discounts */
+  total?: number;
+  /** What each person pays; nobody else may have a share */
+  shares?: Record<string, number>;
+  /** Items each person ordered, counting quantities; nobody else may */
+  items?: Record<string, number>;
+  status?: OrderSessionStatus;
+  /** Name of the person owed everyone's shares */
+  payer?: string;
+  /** Text that must appear in Garçon's replies to the thread */
+  replyIncludes?: string[];
+}
+
+/**
+ * A recorded Slack thread. Messages are posted one by one; each one that
+ * mentions the bot is handled as a mention before the next is posted.
+ */
+export interface ThreadFixture {
+  description?: string;
+  channel?: string;
+  botUserId?: string;
+  /** Display names by user ID */
+  users: Record<string, string>;
+  /** The thread in order; the first message is its parent */
+  messages: FixtureMessage[];
+  /** Model responses replayed by FakeLlmService; written by --record */
+  llm?: ScriptedResponse[];
+  expect: ThreadExpectations;
+}
+
+export interface ReplayResult {
+  file: string;
+  description?: string;
+  /** Expectations that were not met; empty when the fixture passed */
+  failures: string[];
+  /** Responses from the live model, when not replaying */
+  script?: ScriptedResponse[];
+}
+
+/**
+ * Where model responses come from: the fixture's script, or the configured
+ * provider
+ */
+export type ReplayMode = "replay" | "live";
+
+/**
+ * Lists fixture files
+ * @param paths - Fixture files and directories of them
+ * @returns JSON files, sorted within each directory
+ */
+export async function findFixtures(
+  paths: string[] = [DEFAULT_FIXTURE_DIR]
+): Promise<string[]> {
+  const files: string[] = [];
+  for (const path of paths) {
+    if (!(await stat(path)).isDirectory()) {
+      files.push(path);
+      continue;
+    }
+    const entries = (await readdir(path)).filter((name) =>
+      name.endsWith(".json")
+    );
+    files.push(...entries.sort().map((name) => join(path, name)));
+  }
+  return files;
+}
+
+/**
+ * Replays recorded Slack threads through EventHandlerService, with a fake
+ * Slack workspace and scripted or live model responses, and checks the
+ * resulting orders and bill split. Replaying catches code regressions
+ * offline; running live catches prompt regressions against the real model.
+ */
+export class ThreadReplayService {
+  /**
+   * @param config - Environment configuration; storage is always in memory
+   * @param mode - Where model responses come from
+   */
+  constructor(
+    private config: EnvConfig,
+    private mode: ReplayMode = "replay"
+  ) {}
+
+  /**
+   * Replays one fixture
+   * @param file - Fixture path
+   * @returns Failed expectations, and the recorded responses when live
+   */
+  async run(file: string): Promise<ReplayResult> {
+    const fixture = await this.load(file);
+    const channel = fixture.channel ?? DEFAULT_CHANNEL;
+    const botUserId = fixture.botUserId ?? DEFAULT_BOT_USER_ID;
+    const threadTs = fixture.messages[0].ts;
+
+    const slackService = new FakeSlackService(
+      botUserId,
+      Object.entries(fixture.users).map(([id, name]) => ({
+        id,
+        name,
+        realName: name,
+        displayName: name,
+      }))
+    );
+    const recorder =
+      this.mode === "live"
+        ? new RecordingLlmService(createLlmProvider(this.config))
+        : undefined;
+    const provider: LlmProvider =
+      recorder ?? new FakeLlmService(fixture.llm ?? []);
+    const { eventHandlerService, orderSessionService } = createServices(
+      {
+        ...this.config,
+        storage: { ...this.config.storage, driver: "memory" },
+        streamResponses: false,
+      },
+      { provider, slackService }
+    );
+
+    const failures: string[] = [];
+    for (const message of fixture.messages) {
+      slackService.addMessage({
+        channel,
+        ts: message.ts,
+        threadTs: message.ts === threadTs ? undefined : threadTs,
+        user: message.user,
+        text: message.text,
+        attachments: await this.loadFiles(file, message.files ?? []),
+      });
+      if (!message.text.includes(`<@${botUserId}>`)) continue;
+
+      try {
+        await eventHandlerService.handleAppMention(
+          {
+            type: "app_mention",
+            user: message.user,
+            text: message.text,
+            ts: message.ts,
+            thread_ts: message.ts === threadTs ? undefined : threadTs,
+            channel,
+            event_ts: message.ts,
+          },
+          Date.now() + this.config.requestTimeoutSeconds * 1000
+        );
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        failures.push(`mention ${message.ts} failed: ${reason}`);
+      }
+    }
+
+    const replies = slackService.messages
+      .filter(
+        (msg) =>
+          msg.user === botUserId &&
+          msg.threadTs === threadTs &&
+          msg.text !== PLACEHOLDER_TEXT
+      )
+      .map((msg) => msg.text);
+    failures.push(
+      ...this.check(
+        fixture.expect,
+        await orderSessionService.find(channel, threadTs),
+        replies
+      )
+    );
+
+    return {
+      file,
+      description: fixture.description,
+      failures,
+      script: recorder?.script,
+    };
+  }
+
+  /**
+   * Stores recorded model responses in a fixture, replacing its script
+   * @param file - Fixture path
+   * @param script - Responses from a live run
+   */
+  async saveScript(file: string, script: ScriptedResponse[]): Promise<void> {
+    const fixture = JSON.parse(await readFile(file, "utf-8"));
+    fixture.llm = script;
+    await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+    logger.info("Fixture script recorded", { file, responses: script.length });
+  }
+
+  /**
+   * @throws {Error} If the fixture is missing messages or expectations
+   */
+  private async load(file: string): Promise<ThreadFixture> {
+    const fixture = JSON.parse(await readFile(file, "utf-8")) as ThreadFixture;
+    if (!Array.isArray(fixture.messages) || fixture.messages.length === 0) {
+      throw new Error(`Fixture has no messages: ${file}`);
+    }
+    if (!fixture.expect) {
+      throw new Error(`Fixture has no expectations: ${file}`);
+    }
+    fixture.users ??= {};
+    return fixture;
+  }
+
+  private async loadFiles(
+    fixtureFile: string,
+    files: FixtureFile[]
+  ): Promise<SlackAttachment[] | undefined> {
+    if (files.length === 0) return undefined;
+
+    return Promise.all(
+      files.map(async (file) => {
+        const path = resolve(dirname(fixtureFile), file.path);
+        const mimeType =
+          file.mimeType ??
+          MIME_TYPES[extname(path).toLowerCase()] ??
+          "application/octet-stream";
+        return {
+          kind: mimeType.startsWith("image/") ? "image" : "document",
+          blob: new Blob([await readFile(path)], { type: mimeType }),
+          mimeType,
+          name: file.name ?? path.split("/").pop() ?? file.path,
+        } satisfies SlackAttachment;
+      })
+    );
+  }
+
+  /**
+   * Compares the thread's final state with the fixture's expectations
+   * @returns One line per unmet expectation
+   */
+  private check(
+    expect: ThreadExpectations,
+    session: OrderSession | null,
+    replies: string[]
+  ): string[] {
+    const failures: string[] = [];
+    const split = session?.split;
+
+    const wantsSplit =
+      expect.split ?? (expect.total !== undefined || Boolean(expect.shares));
+    if (wantsSplit && !split) failures.push("no bill split was computed");
+    if (expect.split === false && split) {
+      failures.push(`unexpected bill split of ${split.total}`);
+    }
+
+    if (split && expect.total !== undefined) {
+      if (!sameAmount(split.total, expect.total)) {
+        failures.push(`total: expected ${expect.total}, got ${split.total}`);
+      }
+    }
+    if (split && expect.shares) {
+      failures.push(
+        ...compareByName(
+          "share",
+          expect.shares,
+          new Map(split.shares.map((share) => [share.name, share.total]))
+        )
+      );
+    }
+
+    if (expect.items) {
+      failures.push(
+        ...compareByName(
+          "items",
+          expect.items,
+          new Map(
+            (session?.participants ?? []).map((participant) => [
+              participant.name,
+              participant.items.reduce((sum, item) => sum + item.quantity, 0),
+            ])
+          )
+        )
+      );
+    }
+
+    if (expect.status && session?.status !== expect.status) {
+      failures.push(
+        `status: expected ${expect.status}, got ${session?.status ?? "no session"}`
+      );
+    }
+    if (expect.payer && session?.payer?.name !== expect.payer) {
+      failures.push(
+        `payer: expected ${expect.payer}, got ${session?.payer?.name ?? "none"}`
+      );
+    }
+
+    const replyText = replies.join("\n");
+    for (const text of expect.replyIncludes ?? []) {
+      if (!replyText.includes(text))
+        failures.push(`no reply mentions "${text}"`);
+    }
+    return failures;
+  }
+}
+
+function sameAmount(actual: number, expected: number): boolean {
+  return Math.abs(actual - expected) < AMOUNT_TOLERANCE;
+}
+
+/**
+ * Compares expected per-person numbers with actual ones, reporting missing,
+ * different and unexpected people
+ */
+function compareByName(
+  label: string,
+  expected: Record<string, number>,
+  actual: Map<string, number>
+): string[] {
+  const failures: string[] = [];
+  for (const [name, value] of Object.entries(expected)) {
+    const got = actual.get(name);
+    if (got === undefined) {
+      failures.push(`${label} for ${name}: expected ${value}, got none`);
+    } else if (!sameAmount(got, value)) {
+      failures.push(`${label} for ${name}: expected ${value}, got ${got}`);
+    }
+  }
+  for (const name of actual.keys()) {
+    if (!(name in expected)) {
+      failures.push(`${label} for ${name}: not expected`);
+    }
+  }
+  return failures;
+}
@@ -0,0 +1,272 @@
+import { WebClient } from "@slack/web-api";
+import logger from "../logger";
+import { KeyValueStore } from "../storage";
+import { RetryPolicy, TransientFailure } from "./retry";
+import { classifySlackError, isRateLimitedError } from "./slack-errors";
+
+export interface UserProfile {
+  id: string;
+  /** Slack handle */
+  name: string;
+  realName: string;
+  /** Name chosen by the user in their profile; may be empty */
+  displayName: string;
+  /** Workspace admin or owner; unset in profiles cached before it was added */
+  isAdmin?: boolean;
+}
+
+export interface CachedUser {
+  profile: UserProfile;
+  /** Epoch milliseconds of the Slack lookup */
+  fetchedAt: number;
+}
+
+export interface UserDirectoryOptions {
+  /** How long a profile is used without asking Slack again */
+  ttlSeconds: number;
+  /** How long an expired profile is kept as a fallback for when Slack fails */
+  staleSeconds: number;
+  /** Unknown users in one batch above which users.list is used instead */
+  warmUpThreshold: number;
+}
+
+const DEFAULT_OPTIONS: UserDirectoryOptions = {
+  ttlSeconds: 24 * 60 * 60,
+  staleSeconds: 7 * 24 * 60 * 60,
+  warmUpThreshold: 5,
+};
+
+/** Page size for users.list */
+const USERS_PAGE_SIZE = 200;
+
+/** Raw user object shared by users.info and users.list responses */
+interface SlackUser {
+  id?: string;
+  name?: string;
+  real_name?: string;
+  deleted?: boolean;
+  is_admin?: boolean;
+  is_owner?: boolean;
+  profile?: { display_name?: string; real_name?: string };
+}
+
+/**
+ * Picks the name people recognize: display name, then real name, then handle
+ * @param profile - Cached user profile
+ * @returns Name to show the model
+ */
+export function preferredName(profile: UserProfile): string {
+  return profile.displayName || profile.realName || profile.name;
+}
+
+function toProfile(user: SlackUser & { id: string }): UserProfile {
+  return {
+    id: user.id,
+    name: user.name || "unknown",
+    realName: user.real_name || user.profile?.real_name || "",
+    displayName: user.profile?.display_name || "",
+    isAdmin: Boolean(user.is_admin || user.is_owner),
+  };
+}
+
+/**
+ * Rate limits are left to the cooldown below rather than waited out: stale
+ * names are better than a slow reply
+ */
+function classifyLookupError(error: unknown): TransientFailure | null {
+  return isRateLimitedError(error) ? null : classifySlackError(error);
+}
+
+/**
+ * Caches Slack user profiles in memory, backed by a key-value store so cold
+ * starts don't refetch everyone. Large batches of unknown users are loaded
+ * with a single users.list pass instead of one users.info call per user.
+ * When Slack rate-limits or fails, expired profiles are served instead and
+ * lookups are paused until Slack's Retry-After has passed. Other transient
+ * failures are retried with the shared policy first.
+ */
+export class UserDirectoryService {
+  private memory = new Map<string, CachedUser>();
+  private options: UserDirectoryOptions;
+  private rateLimitedUntil = 0;
+  private warmUpInFlight?: Promise<void>;
+  private lastWarmUpAt = 0;
+
+  constructor(
+    private client: WebClient,
+    private store: KeyValueStore<CachedUser>,
+    options: Partial<UserDirectoryOptions> = {},
+    private retryPolicy: RetryPolicy = new RetryPolicy()
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Looks up a single user
+   * @param userId - User ID
+   * @returns Profile, possibly stale if Slack is unavailable, or null
+   */
+  async getUser(userId: string): Promise<UserProfile | null> {
+    const cached = await this.getCached(userId);
+    if (cached && this.isFresh(cached)) return cached.profile;
+
+    return (await this.fetchUser(userId)) ?? cached?.profile ?? null;
+  }
+
+  /**
+   * Looks up several users, using users.list when many are unknown
+   * @param userIds - User IDs
+   * @returns Map of user ID to profile; users that can't be resolved are
+   * left out
+   */
+  async getUsers(userIds: string[]): Promise<Map<string, UserProfile>> {
+    const result = new Map<string, UserProfile>();
+    const stale = new Map<string, UserProfile>();
+    let missing: string[] = [];
+
+    for (const userId of new Set(userIds)) {
+      const cached = await this.getCached(userId);
+      if (cached && this.isFresh(cached)) {
+        result.set(userId, cached.profile);
+      } else {
+        if (cached) stale.set(userId, cached.profile);
+        missing.push(userId);
+      }
+    }
+
+    if (missing.length > this.options.warmUpThreshold) {
+      await this.warmUp();
+      missing = missing.filter((userId) => {
+        const cached = this.memory.get(userId);
+        if (!cached || !this.isFresh(cached)) return true;
+        result.set(userId, cached.profile);
+        return false;
+      });
+    }
+
+    await Promise.all(
+      missing.map(async (userId) => {
+        const profile = (await this.fetchUser(userId)) ?? stale.get(userId);
+        if (profile) result.set(userId, profile);
+      })
+    );
+
+    logger.info("User directory lookup", {
+      requested: userIds.length,
+      resolved: result.size,
+      fetched: missing.length,
+    });
+    return result;
+  }
+
+  /**
+   * Loads every workspace member with users.list. Concurrent calls share a
+   * single pass, and a pass is not repeated within the cache TTL. A rate
+   * limit ends the pass early, keeping the pages already loaded.
+   */
+  async warmUp(): Promise<void> {
+    if (Date.now() - this.lastWarmUpAt < this.options.ttlSeconds * 1000) {
+      return;
+    }
+    if (!this.warmUpInFlight) {
+      this.warmUpInFlight = this.listAllUsers().finally(() => {
+        this.warmUpInFlight = undefined;
+      });
+    }
+    return this.warmUpInFlight;
+  }
+
+  private async listAllUsers(): Promise<void> {
+    if (this.isRateLimited()) return;
+
+    let cursor: string | undefined;
+    let loaded = 0;
+    try {
+      do {
+        const page = await this.retryPolicy.run(
+          "users.list",
+          () => this.client.users.list({ limit: USERS_PAGE_SIZE, cursor }),
+          classifyLookupError
+        );
+        const profiles = (page.members ?? [])
+          .filter((user) => user.id && !user.deleted)
+          .map((user) => toProfile({ ...user, id: user.id! }));
+        await this.remember(profiles);
+        loaded += profiles.length;
+        cursor = page.response_metadata?.next_cursor || undefined;
+      } while (cursor);
+
+      this.lastWarmUpAt = Date.now();
+      logger.info("User directory warmed up", { loaded });
+    } catch (error) {
+      this.handleFailure("users.list", error);
+      logger.warn("User directory warm-up incomplete", { loaded });
+    }
+  }
+
+  private async fetchUser(userId: string): Promise<UserProfile | null> {
+    if (this.isRateLimited()) return null;
+
+    try {
+      const result = await this.retryPolicy.run(
+        "users.info",
+        () => this.client.users.info({ user: userId }),
+        classifyLookupError
+      );
+      if (!result.user) return null;
+
+      const profile = toProfile({ ...result.user, id: userId });
+      await this.remember([profile]);
+      return profile;
+    } catch (error) {
+      this.handleFailure("users.info", error);
+      return null;
+    }
+  }
+
+  private async getCached(userId: string): Promise<CachedUser | undefined> {
+    const inMemory = this.memory.get(userId);
+    if (inMemory) return inMemory;
+
+    const stored = await this.store.get(userId);
+    if (stored) this.memory.set(userId, stored);
+    return stored;
+  }
+
+  private async remember(profiles: UserProfile[]): Promise<void> {
+    const fetchedAt = Date.now();
+    const entries = profiles.map((profile): [string, CachedUser] => [
+      profile.id,
+      { profile, fetchedAt },
+    ]);
+    entries.forEach(([userId, cached]) => this.memory.set(userId, cached));
+    await this.store.setMany(
+      entries,
+      this.options.ttlSeconds + this.options.staleSeconds
+    );
+  }
+
+  private isFresh(cached: CachedUser): boolean {
+    return Date.now() - cached.fetchedAt < this.options.ttlSeconds * 1000;
+  }
+
+  private isRateLimited(): boolean {
+    return Date.now() < this.rateLimitedUntil;
+  }
+
+  /**
+   * Logs a failed lookup and, for rate limits, pauses further lookups
+   */
+  private handleFailure(method: string, error: unknown): void {
+    if (isRateLimitedError(error)) {
+      const retryAfter = error.retryAfter || 1;
+      this.rateLimitedUntil = Date.now() + retryAfter * 1000;
+      logger.warn("Slack rate limited user lookups; using cached names", {
+        method,
+        retryAfter,
+      });
+      return;
+    }
+    logger.error("Failed to fetch user info", { method, error });
+  }
+}
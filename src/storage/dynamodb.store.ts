@@ -0,0 +1,189 @@
+import {
+  AttributeValue,
+  ConditionalCheckFailedException,
+  DynamoDB,
+  PutItemInput,
+} from "@aws-sdk/client-dynamodb";
+import { KeyValueStore, toEntry } from "./key-value.store";
+
+/** BatchWriteItem accepts at most 25 requests */
+const BATCH_WRITE_SIZE = 25;
+
+type Item = Record<string, AttributeValue>;
+
+/**
+ * Store backed by a DynamoDB table shared by every Lambda container, so
+ * idempotency claims, order sessions and the scheduler see the same state.
+ * The table has a partition key "ns" and a sort key "key" (both strings);
+ * values are stored as JSON. Expired entries are ignored on read and
+ * removed by DynamoDB TTL on the "expiresAt" attribute (epoch seconds).
+ */
+export class DynamoDbStore<T> implements KeyValueStore<T> {
+  /**
+   * @param tableName - Table holding every namespace
+   * @param namespace - Logical store name, e.g. "idempotency"
+   * @param client - DynamoDB client
+   */
+  constructor(
+    private tableName: string,
+    private namespace: string,
+    private client: DynamoDB = new DynamoDB()
+  ) {}
+
+  async get(key: string): Promise<T | undefined> {
+    const result = await this.client.getItem({
+      TableName: this.tableName,
+      Key: this.itemKey(key),
+      // Claims and read-modify-write cycles need the latest write
+      ConsistentRead: true,
+    });
+    return result.Item && !isExpiredItem(result.Item)
+      ? (JSON.parse(result.Item.value.S ?? "null") as T)
+      : undefined;
+  }
+
+  async set(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    await this.client.putItem({
+      TableName: this.tableName,
+      Item: this.toItem(key, value, ttlSeconds),
+    });
+  }
+
+  async setMany(
+    entries: Array<[string, T]>,
+    ttlSeconds?: number
+  ): Promise<void> {
+    for (let i = 0; i < entries.length; i += BATCH_WRITE_SIZE) {
+      let requests = entries
+        .slice(i, i + BATCH_WRITE_SIZE)
+        .map(([key, value]) => ({
+          PutRequest: { Item: this.toItem(key, value, ttlSeconds) },
+        }));
+
+      // Throttled writes come back as unprocessed and are sent again
+      while (requests.length > 0) {
+        const result = await this.client.batchWriteItem({
+          RequestItems: { [this.tableName]: requests },
+        });
+        requests = (result.UnprocessedItems?.[this.tableName] ?? []).flatMap(
+          (request) =>
+            request.PutRequest?.Item
+              ? [{ PutRequest: { Item: request.PutRequest.Item } }]
+              : []
+        );
+      }
+    }
+  }
+
+  async setIfAbsent(
+    key: string,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    return this.putIf(key, value, ttlSeconds, {
+      ConditionExpression: "attribute_not_exists(#key) OR #expiresAt <= :now",
+      ExpressionAttributeNames: { "#key": "key", "#expiresAt": "expiresAt" },
+      ExpressionAttributeValues: {
+        ":now": { N: String(Math.floor(Date.now() / 1000)) },
+      },
+    });
+  }
+
+  async compareAndSet(
+    key: string,
+    expected: T,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    // Values are stored as their JSON text, so equal values match exactly
+    return this.putIf(key, value, ttlSeconds, {
+      ConditionExpression: "#value = :expected",
+      ExpressionAttributeNames: { "#value": "value" },
+      ExpressionAttributeValues: {
+        ":expected": { S: JSON.stringify(expected) },
+      },
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.deleteItem({
+      TableName: this.tableName,
+      Key: this.itemKey(key),
+    });
+  }
+
+  async entries(): Promise<Array<[string, T]>> {
+    const entries: Array<[string, T]> = [];
+    let startKey: Item | undefined;
+
+    do {
+      const result = await this.client.query({
+        TableName: this.tableName,
+        KeyConditionExpression: "#ns = :ns",
+        ExpressionAttributeNames: { "#ns": "ns" },
+        ExpressionAttributeValues: { ":ns": { S: this.namespace } },
+        ExclusiveStartKey: startKey,
+      });
+      for (const item of result.Items ?? []) {
+        if (isExpiredItem(item)) continue;
+        entries.push([item.key.S ?? "", JSON.parse(item.value.S ?? "null")]);
+      }
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+
+    return entries;
+  }
+
+  /**
+   * Writes an entry only if the condition holds
+   * @returns False if the condition failed
+   */
+  private async putIf(
+    key: string,
+    value: T,
+    ttlSeconds: number | undefined,
+    condition: Pick<
+      PutItemInput,
+      | "ConditionExpression"
+      | "ExpressionAttributeNames"
+      | "ExpressionAttributeValues"
+    >
+  ): Promise<boolean> {
+    try {
+      await this.client.putItem({
+        TableName: this.tableName,
+        Item: this.toItem(key, value, ttlSeconds),
+        ...condition,
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) return false;
+      throw error;
+    }
+  }
+
+  private itemKey(key: string): Item {
+    return { ns: { S: this.namespace }, key: { S: key } };
+  }
+
+  private toItem(key: string, value: T, ttlSeconds?: number): Item {
+    const { expiresAt } = toEntry(value, ttlSeconds);
+    const item: Item = {
+      ...this.itemKey(key),
+      value: { S: JSON.stringify(value) },
+    };
+    if (expiresAt !== undefined) {
+      item.expiresAt = { N: String(Math.ceil(expiresAt / 1000)) };
+    }
+    return item;
+  }
+}
+
+/**
+ * DynamoDB TTL deletes expired items lazily, up to days later
+ */
+function isExpiredItem(item: Item, now = Date.now()): boolean {
+  return (
+    item.expiresAt?.N !== undefined && Number(item.expiresAt.N) * 1000 <= now
+  );
+}
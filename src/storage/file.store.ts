@@ -0,0 +1,140 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import logger from "../logger";
+import {
+  isExpired,
+  KeyValueStore,
+  sameValue,
+  StoredEntry,
+  toEntry,
+} from "./key-value.store";
+
+/**
+ * Store persisted as a single JSON file. Operations are serialized within
+ * the process so read-modify-write cycles don't interleave; it is meant for
+ * small amounts of state (a Lambda's /tmp or a single self-hosted instance).
+ */
+export class FileStore<T> implements KeyValueStore<T> {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async get(key: string): Promise<T | undefined> {
+    return this.withData((data) => {
+      const entry = data[key];
+      return entry && !isExpired(entry) ? entry.value : undefined;
+    });
+  }
+
+  async set(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    await this.withData((data) => {
+      data[key] = toEntry(value, ttlSeconds);
+      return undefined;
+    }, true);
+  }
+
+  async setMany(
+    entries: Array<[string, T]>,
+    ttlSeconds?: number
+  ): Promise<void> {
+    await this.withData((data) => {
+      for (const [key, value] of entries) {
+        data[key] = toEntry(value, ttlSeconds);
+      }
+      return undefined;
+    }, true);
+  }
+
+  async setIfAbsent(
+    key: string,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    return this.withData((data) => {
+      const entry = data[key];
+      if (entry && !isExpired(entry)) return false;
+      data[key] = toEntry(value, ttlSeconds);
+      return true;
+    }, true);
+  }
+
+  async compareAndSet(
+    key: string,
+    expected: T,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    return this.withData((data) => {
+      const entry = data[key];
+      if (!entry || isExpired(entry) || !sameValue(entry.value, expected)) {
+        return false;
+      }
+      data[key] = toEntry(value, ttlSeconds);
+      return true;
+    }, true);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.withData((data) => {
+      delete data[key];
+      return undefined;
+    }, true);
+  }
+
+  async entries(): Promise<Array<[string, T]>> {
+    return this.withData((data) => {
+      const now = Date.now();
+      return Object.entries(data)
+        .filter(([, entry]) => !isExpired(entry, now))
+        .map(([key, entry]) => [key, entry.value] as [string, T]);
+    });
+  }
+
+  /**
+   * Runs an operation against the file contents, queued behind any
+   * in-flight operation, and writes the data back when requested
+   */
+  private withData<R>(
+    operation: (data: Record<string, StoredEntry<T>>) => R,
+    write = false
+  ): Promise<R> {
+    const run = async (): Promise<R> => {
+      const data = await this.load();
+      const result = operation(data);
+      if (write) await this.save(data);
+      return result;
+    };
+
+    const next = this.queue.then(run, run);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async load(): Promise<Record<string, StoredEntry<T>>> {
+    try {
+      const raw = await readFile(this.filePath, "utf-8");
+      const data = JSON.parse(raw) as Record<string, StoredEntry<T>>;
+      // Drop expired entries so the file doesn't grow forever
+      for (const [key, entry] of Object.entries(data)) {
+        if (isExpired(entry)) delete data[key];
+      }
+      return data;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn("Failed to read store file; starting empty", {
+          filePath: this.filePath,
+          error,
+        });
+      }
+      return {};
+    }
+  }
+
+  private async save(data: Record<string, StoredEntry<T>>): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash never leaves a half-written file
+    const tmpPath = `${this.filePath}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(data), "utf-8");
+    await rename(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,47 @@
+import { DynamoDB } from "@aws-sdk/client-dynamodb";
+import { join } from "node:path";
+import { DynamoDbStore } from "./dynamodb.store";
+import { FileStore } from "./file.store";
+import { KeyValueStore } from "./key-value.store";
+import { MemoryStore } from "./memory.store";
+
+export { KeyValueStore } from "./key-value.store";
+export { DynamoDbStore } from "./dynamodb.store";
+export { FileStore } from "./file.store";
+export { MemoryStore } from "./memory.store";
+
+export type StorageDriver = "memory" | "file" | "dynamodb";
+
+export interface StorageOptions {
+  driver: StorageDriver;
+  /** Directory holding one JSON file per namespace (file driver only) */
+  dir: string;
+  /** Table holding every namespace (dynamodb driver only) */
+  table?: string;
+}
+
+/** One client for every DynamoDB-backed store */
+let dynamoDb: DynamoDB | undefined;
+
+/**
+ * Creates a store for a namespace using the configured driver
+ * @param namespace - Logical store name, e.g. "idempotency"
+ * @param options - Storage driver options
+ * @returns Key-value store instance
+ */
+export function createStore<T>(
+  namespace: string,
+  options: StorageOptions
+): KeyValueStore<T> {
+  if (options.driver === "dynamodb") {
+    if (!options.table) {
+      throw new Error("STORAGE_TABLE is required for the dynamodb driver");
+    }
+    dynamoDb ??= new DynamoDB();
+    return new DynamoDbStore<T>(options.table, namespace, dynamoDb);
+  }
+  if (options.driver === "file") {
+    return new FileStore<T>(join(options.dir, `${namespace}.json`));
+  }
+  return new MemoryStore<T>();
+}
@@ -0,0 +1,92 @@
+/**
+ * Minimal async key-value store used for bot state (idempotency records,
+ * thread sessions, caches). Values must be JSON-serializable.
+ */
+export interface KeyValueStore<T> {
+  /**
+   * Retrieves a value, ignoring expired entries
+   * @param key - Entry key
+   * @returns Stored value, or undefined if absent or expired
+   */
+  get(key: string): Promise<T | undefined>;
+
+  /**
+   * Stores a value, replacing any existing entry
+   * @param key - Entry key
+   * @param value - Value to store
+   * @param ttlSeconds - Optional time to live
+   */
+  set(key: string, value: T, ttlSeconds?: number): Promise<void>;
+
+  /**
+   * Stores several values at once, replacing existing entries
+   * @param entries - Array of [key, value] pairs
+   * @param ttlSeconds - Optional time to live, applied to every entry
+   */
+  setMany(entries: Array<[string, T]>, ttlSeconds?: number): Promise<void>;
+
+  /**
+   * Stores a value only if the key is absent or expired
+   * @param key - Entry key
+   * @param value - Value to store
+   * @param ttlSeconds - Optional time to live
+   * @returns True if the value was stored
+   */
+  setIfAbsent(key: string, value: T, ttlSeconds?: number): Promise<boolean>;
+
+  /**
+   * Replaces a value only if it still equals the expected one, so two
+   * writers that read the same entry can't both win
+   * @param key - Entry key
+   * @param expected - Value previously read with get()
+   * @param value - Value to store
+   * @param ttlSeconds - Optional time to live
+   * @returns True if the value was stored
+   */
+  compareAndSet(
+    key: string,
+    expected: T,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean>;
+
+  /**
+   * Removes an entry
+   * @param key - Entry key
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Lists all non-expired entries
+   * @returns Array of [key, value] pairs
+   */
+  entries(): Promise<Array<[string, T]>>;
+}
+
+export interface StoredEntry<T> {
+  value: T;
+  expiresAt?: number;
+}
+
+/**
+ * Checks whether a stored entry has passed its expiry time
+ */
+export function isExpired<T>(entry: StoredEntry<T>, now = Date.now()): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= now;
+}
+
+/**
+ * Compares two stored values by their JSON form
+ */
+export function sameValue<T>(a: T, b: T): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Builds a stored entry with an optional expiry
+ */
+export function toEntry<T>(value: T, ttlSeconds?: number): StoredEntry<T> {
+  return ttlSeconds === undefined
+    ? { value }
+    : { value, expiresAt: Date.now() + ttlSeconds * 1000 };
+}
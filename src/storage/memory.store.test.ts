@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MemoryStore } from "./memory.store";
+
+interface Claim {
+  status: string;
+  attempt: number;
+}
+
+describe("MemoryStore.setIfAbsent", () => {
+  it("writes only the first value", async () => {
+    const store = new MemoryStore<Claim>();
+
+    assert.equal(
+      await store.setIfAbsent("k", { status: "a", attempt: 1 }),
+      true
+    );
+    assert.equal(
+      await store.setIfAbsent("k", { status: "b", attempt: 2 }),
+      false
+    );
+    assert.deepEqual(await store.get("k"), { status: "a", attempt: 1 });
+  });
+
+  it("treats an expired entry as absent", async () => {
+    const store = new MemoryStore<Claim>();
+    await store.set("k", { status: "a", attempt: 1 }, -1);
+
+    assert.equal(
+      await store.setIfAbsent("k", { status: "b", attempt: 2 }),
+      true
+    );
+  });
+});
+
+describe("MemoryStore.compareAndSet", () => {
+  it("replaces a value equal to the expected one", async () => {
+    const store = new MemoryStore<Claim>();
+    await store.set("k", { status: "failed", attempt: 1 });
+
+    assert.equal(
+      await store.compareAndSet(
+        "k",
+        // Compared by value, not identity
+        { status: "failed", attempt: 1 },
+        { status: "in_flight", attempt: 2 }
+      ),
+      true
+    );
+    assert.deepEqual(await store.get("k"), { status: "in_flight", attempt: 2 });
+  });
+
+  it("leaves a changed or missing value alone", async () => {
+    const store = new MemoryStore<Claim>();
+    await store.set("k", { status: "in_flight", attempt: 2 });
+
+    assert.equal(
+      await store.compareAndSet(
+        "k",
+        { status: "failed", attempt: 1 },
+        { status: "in_flight", attempt: 3 }
+      ),
+      false
+    );
+    assert.equal(
+      await store.compareAndSet(
+        "missing",
+        { status: "failed", attempt: 1 },
+        { status: "in_flight", attempt: 2 }
+      ),
+      false
+    );
+    assert.deepEqual(await store.get("k"), { status: "in_flight", attempt: 2 });
+    assert.equal(await store.get("missing"), undefined);
+  });
+
+  it("lets only one of two concurrent writers win", async () => {
+    const store = new MemoryStore<Claim>();
+    const failed = { status: "failed", attempt: 1 };
+    await store.set("k", failed);
+
+    const results = await Promise.all([
+      store.compareAndSet("k", failed, { status: "in_flight", attempt: 2 }),
+      store.compareAndSet("k", failed, { status: "in_flight", attempt: 3 }),
+    ]);
+
+    assert.deepEqual(results, [true, false]);
+    assert.deepEqual(await store.get("k"), { status: "in_flight", attempt: 2 });
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  isExpired,
+  KeyValueStore,
+  sameValue,
+  StoredEntry,
+  toEntry,
+} from "./key-value.store";
+
+/**
+ * In-process store. State is lost on restart, which is fine for a
+ * long-running Socket Mode process.
+ */
+export class MemoryStore<T> implements KeyValueStore<T> {
+  private entriesByKey = new Map<string, StoredEntry<T>>();
+
+  async get(key: string): Promise<T | undefined> {
+    return this.current(key);
+  }
+
+  async set(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    this.entriesByKey.set(key, toEntry(value, ttlSeconds));
+  }
+
+  async setMany(
+    entries: Array<[string, T]>,
+    ttlSeconds?: number
+  ): Promise<void> {
+    for (const [key, value] of entries) {
+      this.entriesByKey.set(key, toEntry(value, ttlSeconds));
+    }
+  }
+
+  async setIfAbsent(
+    key: string,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    if (this.current(key) !== undefined) return false;
+    this.entriesByKey.set(key, toEntry(value, ttlSeconds));
+    return true;
+  }
+
+  async compareAndSet(
+    key: string,
+    expected: T,
+    value: T,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    const current = this.current(key);
+    if (current === undefined || !sameValue(current, expected)) return false;
+    this.entriesByKey.set(key, toEntry(value, ttlSeconds));
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entriesByKey.delete(key);
+  }
+
+  async entries(): Promise<Array<[string, T]>> {
+    const now = Date.now();
+    return [...this.entriesByKey.entries()]
+      .filter(([, entry]) => !isExpired(entry, now))
+      .map(([key, entry]) => [key, entry.value]);
+  }
+
+  /**
+   * Reads an entry without awaiting, so conditional writes check and store
+   * in the same tick
+   */
+  private current(key: string): T | undefined {
+    const entry = this.entriesByKey.get(key);
+    if (!entry) return undefined;
+    if (isExpired(entry)) {
+      this.entriesByKey.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+}